@@ -0,0 +1,110 @@
+import { Observable } from 'rxjs';
+
+/**
+ * rx-signals internal helper type used by the {@link Store}
+ *
+ * While a batch is open (see `store.dispatchBatch`), the `BatchGate` holds back the values of
+ * gated signals (derived behaviors), keeping only the latest value per subscriber.
+ * Once the last open batch is closed, the held values are flushed in dependency order,
+ * hence a signal is flushed only after all held signals it depends on have been flushed.
+ *
+ * @class BatchGate
+ */
+export class BatchGate {
+  private openBatches = 0;
+
+  private readonly held = new Map<symbol, Set<() => void>>();
+
+  private readonly dependencyGetters = new Map<symbol, () => symbol[]>();
+
+  register(id: symbol, getDependencies: () => symbol[]): void {
+    this.dependencyGetters.set(id, getDependencies);
+  }
+
+  unregister(id: symbol, getDependencies: () => symbol[]): void {
+    // child stores share the gate of their parent, so the id might have been registered by another store:
+    if (this.dependencyGetters.get(id) === getDependencies) {
+      this.dependencyGetters.delete(id);
+    }
+  }
+
+  open(): void {
+    this.openBatches += 1;
+  }
+
+  close(): void {
+    this.openBatches -= 1;
+    if (this.openBatches === 0) {
+      this.flush();
+    }
+  }
+
+  getGatedObservable<T>(id: symbol, observable: Observable<T>): Observable<T> {
+    return new Observable<T>(subscriber => {
+      let latestValue: T;
+      const flushLatestValue = () => subscriber.next(latestValue);
+      const release = () => this.held.get(id)?.delete(flushLatestValue);
+      const subscription = observable.subscribe({
+        next: value => {
+          if (this.openBatches === 0) {
+            subscriber.next(value);
+            return;
+          }
+          latestValue = value;
+          const flushers = this.held.get(id) ?? new Set<() => void>();
+          flushers.add(flushLatestValue);
+          this.held.set(id, flushers);
+        },
+        error: error => {
+          release();
+          subscriber.error(error);
+        },
+        complete: () => {
+          release();
+          subscriber.complete();
+        },
+      });
+      return () => {
+        release();
+        subscription.unsubscribe();
+      };
+    });
+  }
+
+  private flush(): void {
+    // Flushing a value might cause dependent signals to produce new values.
+    // These must be held, too, until all their held dependencies have been flushed:
+    this.openBatches += 1;
+    try {
+      while (this.held.size > 0) {
+        const id = this.getNextIdToFlush();
+        const flushers = this.held.get(id);
+        this.held.delete(id);
+        flushers?.forEach(flush => flush());
+      }
+    } finally {
+      this.openBatches -= 1;
+    }
+  }
+
+  private getNextIdToFlush(): symbol {
+    const heldIds = [...this.held.keys()];
+    // in case of cyclic dependencies, there might be no such id, so we fall back to the first one:
+    return (
+      heldIds.find(id => !this.dependsOnAny(id, new Set<symbol>(heldIds), new Set<symbol>())) ??
+      heldIds[0]
+    );
+  }
+
+  private dependsOnAny(id: symbol, ids: Set<symbol>, visited: Set<symbol>): boolean {
+    visited.add(id);
+    return (this.dependencyGetters.get(id)?.() ?? []).some(
+      dependency =>
+        dependency !== id &&
+        !visited.has(dependency) &&
+        (ids.has(dependency) || this.dependsOnAny(dependency, ids, visited)),
+    );
+  }
+}
+
+export default BatchGate;
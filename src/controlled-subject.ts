@@ -8,10 +8,12 @@ import {
   filter,
   share,
 } from 'rxjs';
+import { BatchGate } from './batch-gate';
 import { ContextHandle } from './context-handle';
 import { DelayedEventQueue } from './delayed-event-queue';
+import { trackDependency } from './dependency-tracker';
 import { SourceObservable } from './source-observable';
-import { NO_VALUE } from './store-utils';
+import { NO_VALUE, NoValueType } from './store-utils';
 
 /**
  * Used by the {@link Store}
@@ -55,15 +57,27 @@ export class ControlledSubject<T> {
 
   private readonly contextHandle = new ContextHandle();
 
+  private equals: (a: T, b: T) => boolean = (a, b) => a === b;
+
+  private readonly getDependencies = (): symbol[] =>
+    this.getSources().reduce(
+      (dependencies, source) => [...dependencies, ...source.getDependencies()],
+      [] as symbol[],
+    );
+
   constructor(
     private readonly id: symbol,
     private readonly isBehavior: boolean,
     private readonly onSourceError: (sourceId: symbol, error: any) => void,
     private readonly onSourceCompleted: (sourceId: symbol) => void,
     private readonly delayedEventQueue: DelayedEventQueue,
+    private readonly onEventDelivered: (event: T) => void = () => {},
+    private readonly batchGate: BatchGate | null = null,
   ) {
+    this.batchGate?.register(this.id, this.getDependencies);
     this.pipe = this.getNewTargetPipe();
     this.observable = new Observable<T>(subscriber => {
+      trackDependency(this.id);
       let subscription: Subscription;
       let isCyclic: boolean;
       if (this.isBehavior && !this.isSubscribed) {
@@ -154,15 +168,28 @@ export class ControlledSubject<T> {
   }
 
   complete(): void {
+    this.batchGate?.unregister(this.id, this.getDependencies);
     const completeSubject = this.subject;
     this.getNewTargetPipe();
     completeSubject.complete();
   }
 
+  setEquals(equals: (a: T, b: T) => boolean): void {
+    this.equals = equals;
+  }
+
   isObservableSubscribed(): boolean {
     return this.isSubscribed;
   }
 
+  getCurrentValue(): T | NoValueType {
+    // For unsubscribed (lazy) behaviors, the subject might still hold an outdated value:
+    if (!this.isBehavior || !this.isSubscribed) {
+      return NO_VALUE;
+    }
+    return (this.subject as BehaviorSubject<T | NoValueType>).getValue();
+  }
+
   getResetHandle(): ResetHandle {
     let localSources: SourceObservable<T>[] = [];
     return {
@@ -185,6 +212,10 @@ export class ControlledSubject<T> {
     return this.lazySources.has(sourceId) || this.statefulSources.has(sourceId);
   }
 
+  getSources(): SourceObservable<T>[] {
+    return [...this.lazySources.values(), ...this.statefulSources.values()];
+  }
+
   getNumberOfSources(): number {
     return this.lazySources.size + this.statefulSources.size;
   }
@@ -198,17 +229,45 @@ export class ControlledSubject<T> {
       ? new BehaviorSubject<T>(NO_VALUE as unknown as T)
       : new Subject<T>();
     this.pipe = this.isBehavior
-      ? this.subject.pipe(
-          filter(value => value !== (NO_VALUE as unknown as T)),
-          distinctUntilChanged(),
+      ? this.getBatchGatedObservable(
+          this.subject.pipe(
+            filter(value => value !== (NO_VALUE as unknown as T)),
+            distinctUntilChanged((a, b) => this.equals(a, b)),
+          ),
         )
-      : this.delayedEventQueue.getQueueDelayedObservable(this.subject).pipe(share());
+      : this.notifyAfterDelivery(
+          this.delayedEventQueue.getQueueDelayedObservable(this.subject),
+        ).pipe(share());
     localSources.forEach(source => {
       this.addSource(source);
     });
     return this.pipe;
   }
 
+  private getBatchGatedObservable(observable: Observable<T>): Observable<T> {
+    // the values held back during a batch might end up being equal to the last value before the batch:
+    return this.batchGate
+      ? this.batchGate
+          .getGatedObservable(this.id, observable)
+          .pipe(distinctUntilChanged((a, b) => this.equals(a, b)))
+      : observable;
+  }
+
+  private notifyAfterDelivery(observable: Observable<T>): Observable<T> {
+    // onEventDelivered must be called only after all subscribers have received the event
+    // (hence after all reducers for the event have been processed):
+    return new Observable<T>(subscriber =>
+      observable.subscribe({
+        next: value => {
+          subscriber.next(value);
+          this.onEventDelivered(value);
+        },
+        error: error => subscriber.error(error),
+        complete: () => subscriber.complete(),
+      }),
+    );
+  }
+
   private unsubscribeSelf(): void {
     if (
       typeof (this.selfSubscriptionOrPendingSubscription as Subscription)?.unsubscribe ===
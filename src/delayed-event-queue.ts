@@ -1,4 +1,15 @@
 import { map, mergeMap, Observable, Subject } from 'rxjs';
+import type { SchedulerLike } from 'rxjs';
+
+/**
+ * The scheduler used by the {@link Store} to deliver queued events (see `StoreOptions`):
+ *   - 'macrotask': events are delivered in a macrotask, using setTimeout(0) (default)
+ *   - 'microtask': events are delivered in a microtask (be aware that events dispatching further events
+ *      in an endless loop will block the event loop in this case)
+ *   - an RxJS `SchedulerLike`: events are delivered by the given scheduler (e.g. a `TestScheduler` for virtual time)
+ *   - 'manual': events are delivered only when calling `store.flushEventQueue()`
+ */
+export type EventQueueScheduler = 'macrotask' | 'microtask' | 'manual' | SchedulerLike;
 
 /**
  * rx-signals internal helper type used by the {@link Store}
@@ -8,14 +19,28 @@ import { map, mergeMap, Observable, Subject } from 'rxjs';
 export class DelayedEventQueue {
   private queueArray: Subject<void>[] = [];
 
+  constructor(private readonly scheduler: EventQueueScheduler = 'macrotask') {}
+
   getQueueDelayedObservable<T>(observable: Observable<T>): Observable<T> {
     return observable.pipe(mergeMap(value => this.fromDelayedQueue().pipe(map(() => value))));
   }
 
+  flush(): void {
+    // in contrast to scheduled processing, this also delivers events queued while flushing:
+    while (this.queueArray.length > 0) {
+      this.queueArray[0].next();
+      this.queueArray.shift();
+    }
+  }
+
   private fromDelayedQueue(): Observable<void> {
-    const subject = new Subject<void>();
-    this.queueSubject(subject);
-    return subject.asObservable();
+    // queueing on subscription, because a synchronous scheduler might signal the subject immediately:
+    return new Observable<void>(subscriber => {
+      const subject = new Subject<void>();
+      const subscription = subject.subscribe(subscriber);
+      this.queueSubject(subject);
+      return subscription;
+    });
   }
 
   private queueSubject(subject: Subject<void>): void {
@@ -26,7 +51,7 @@ export class DelayedEventQueue {
   }
 
   private signalNext(): void {
-    setTimeout(() => {
+    this.schedule(() => {
       const queueLength = this.queueArray.length;
       // eslint-disable-next-line no-plusplus
       for (let i = 0; i < queueLength; ++i) {
@@ -36,7 +61,22 @@ export class DelayedEventQueue {
       if (this.queueArray.length > 0) {
         this.signalNext();
       }
-    }, 0);
+    });
+  }
+
+  private schedule(work: () => void): void {
+    switch (this.scheduler) {
+      case 'manual':
+        return;
+      case 'macrotask':
+        setTimeout(work, 0);
+        return;
+      case 'microtask':
+        Promise.resolve().then(work);
+        return;
+      default:
+        this.scheduler.schedule(work);
+    }
   }
 }
 
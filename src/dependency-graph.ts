@@ -0,0 +1,116 @@
+import { SignalId } from './store-utils';
+
+/**
+ * The kind of a {@link DependencyGraphNode}.
+ */
+export type DependencyGraphNodeKind = 'state' | 'derived' | 'event' | 'effect';
+
+/**
+ * A node of the {@link DependencyGraph}, representing a signal or an effect of the {@link Store}.
+ */
+export type DependencyGraphNode = {
+  /** the id of the signal or effect */
+  id: SignalId<unknown>;
+
+  /** the name of the id (see `store.getIdName`) */
+  name: string;
+
+  /** the kind of signal represented by this node */
+  kind: DependencyGraphNodeKind;
+};
+
+/**
+ * An edge of the {@link DependencyGraph}, representing that signal (or effect) `from` feeds into signal `to`.
+ */
+export type DependencyGraphEdge = {
+  /** the id of the signal (or effect) the target depends on */
+  from: SignalId<unknown>;
+
+  /** the id of the dependent signal */
+  to: SignalId<unknown>;
+
+  /** true, if the dependency is given by a reducer (see `store.addReducer`) */
+  reducer: boolean;
+};
+
+/**
+ * The dependency graph of a {@link Store}, as returned by `store.getDependencyGraph`.
+ */
+export type DependencyGraph = {
+  nodes: DependencyGraphNode[];
+  edges: DependencyGraphEdge[];
+};
+
+const getNodeKeys = (graph: DependencyGraph): Map<symbol, string> =>
+  new Map<symbol, string>(graph.nodes.map((node, index) => [node.id, `n${index}`]));
+
+const escapeLabel = (name: string): string => name.replace(/"/g, '\\"');
+
+const toMermaidNode = (key: string, node: DependencyGraphNode): string => {
+  const label = `"${node.name.replace(/"/g, '#quot;')}"`;
+  switch (node.kind) {
+    case 'state':
+      return `${key}[${label}]`;
+    case 'derived':
+      return `${key}([${label}])`;
+    case 'effect':
+      return `${key}{{${label}}}`;
+    default:
+      return `${key}>${label}]`;
+  }
+};
+
+const dotShapes: { [K in DependencyGraphNodeKind]: string } = {
+  state: 'box',
+  derived: 'ellipse',
+  event: 'cds',
+  effect: 'hexagon',
+};
+
+/**
+ * This function converts a {@link DependencyGraph} into a Mermaid flowchart definition.
+ * States are rendered as rectangles, derived states as stadiums, events as flags and effects as hexagons.
+ * Reducer edges are labeled with 'reducer'.
+ *
+ * @param {DependencyGraph} graph - the graph to be converted (see `store.getDependencyGraph`)
+ * @returns {string} - the Mermaid definition
+ */
+export const toMermaid = (graph: DependencyGraph): string => {
+  const keys = getNodeKeys(graph);
+  return [
+    'flowchart LR',
+    ...graph.nodes.map(node => `  ${toMermaidNode(keys.get(node.id) ?? '', node)}`),
+    ...graph.edges.map(
+      edge =>
+        `  ${keys.get(edge.from)} ${edge.reducer ? '-- reducer -->' : '-->'} ${keys.get(edge.to)}`,
+    ),
+  ].join('\n');
+};
+
+/**
+ * This function converts a {@link DependencyGraph} into a Graphviz DOT definition.
+ * States are rendered as boxes, derived states as ellipses, events as cds and effects as hexagons.
+ * Reducer edges are labeled with 'reducer'.
+ *
+ * @param {DependencyGraph} graph - the graph to be converted (see `store.getDependencyGraph`)
+ * @returns {string} - the DOT definition
+ */
+export const toDot = (graph: DependencyGraph): string => {
+  const keys = getNodeKeys(graph);
+  return [
+    'digraph {',
+    ...graph.nodes.map(
+      node =>
+        `  ${keys.get(node.id)} [label="${escapeLabel(node.name)}", shape=${
+          dotShapes[node.kind]
+        }];`,
+    ),
+    ...graph.edges.map(
+      edge =>
+        `  ${keys.get(edge.from)} -> ${keys.get(edge.to)}${
+          edge.reducer ? ' [label="reducer"]' : ''
+        };`,
+    ),
+    '}',
+  ].join('\n');
+};
@@ -0,0 +1,28 @@
+/**
+ * Stack of dependency sets, the top-most being the set for the source that is currently subscribed.
+ */
+const trackedDependencies: Set<symbol>[] = [];
+
+/**
+ * rx-signals internal helper to track all signals that are subscribed synchronously
+ * while executing the given callback.
+ *
+ * @internal
+ */
+export const withDependencyTracking = (dependencies: Set<symbol>, cb: () => void): void => {
+  trackedDependencies.push(dependencies);
+  try {
+    cb();
+  } finally {
+    trackedDependencies.pop();
+  }
+};
+
+/**
+ * rx-signals internal helper to report the subscription of a signal.
+ *
+ * @internal
+ */
+export const trackDependency = (id: symbol): void => {
+  trackedDependencies[trackedDependencies.length - 1]?.add(id);
+};
@@ -1,14 +1,26 @@
 import {
+  EMPTY,
   Observable,
   combineLatest,
+  concat,
+  concatMap,
   debounceTime,
+  exhaustMap,
   filter,
   map,
+  merge,
+  mergeMap,
   of,
+  scan,
   switchMap,
   take,
+  takeUntil,
+  tap,
   throwError,
+  timer,
+  withLatestFrom,
 } from 'rxjs';
+import type { OperatorFunction } from 'rxjs';
 import {
   EffectError,
   EffectResult,
@@ -18,7 +30,7 @@ import {
   toEffectError,
 } from './effect-result';
 import { Signals, SignalsFactory } from './signals-factory';
-import { Effect, SafeEffectResult, Store, UnhandledEffectError } from './store';
+import { Effect, SafeEffectResult, Store, TypedEvent, UnhandledEffectError } from './store';
 import {
   DerivedId,
   EffectId,
@@ -70,6 +82,29 @@ export type CombinedEffectResult<Input, Result, Error> = {
    * criteria, a trigegr event must have been received.
    */
   resultPending: boolean;
+
+  /**
+   * The retry state, if the effect is currently retried after a failed attempt
+   * (only given with retry configuration, see `EffectConfiguration`)
+   */
+  retry?: EffectRetryState;
+
+  /**
+   * True, if the effect has been cancelled for the current input
+   * (only given in the cancelled state, see `EffectInputSignals`)
+   */
+  cancelled?: boolean;
+};
+
+/**
+ * Type representing the retry state of {@link EffectSignals} (see {@link EffectRetryConfiguration})
+ */
+export type EffectRetryState = {
+  /** the number of the retry attempt (2 for the first retry) */
+  attempt: number;
+
+  /** the time of the retry attempt (in milliseconds since epoch) */
+  nextRetryTime: number;
 };
 
 /**
@@ -87,10 +122,12 @@ export type CombinedEffectResultInErrorState<Input, Error> = {
 
 /**
  * Typeguard to check if a {@link CombinedEffectResult} is a {@link CombinedEffectResultInErrorState}
+ * (false for the cancelled state, because the result does not belong to the current input)
  */
 export const isCombinedEffectResultInErrorState = <Input, Result, Error>(
   cer: CombinedEffectResult<Input, Result, Error>,
-): cer is CombinedEffectResultInErrorState<Input, Error> => isEffectError(cer.result);
+): cer is CombinedEffectResultInErrorState<Input, Error> =>
+  isEffectError(cer.result) && !cer.cancelled;
 
 /**
  * Type representing a {@link CombinedEffectResult} in it's success state (pending or non-pending)
@@ -107,10 +144,12 @@ export type CombinedEffectResultInSuccessState<Input, Result> = {
 
 /**
  * Typeguard to check if a {@link CombinedEffectResult} is a {@link CombinedEffectResultInSuccessState}
+ * (false for the cancelled state, because the result does not belong to the current input)
  */
 export const isCombinedEffectResultInSuccessState = <Input, Result, Error>(
   cer: CombinedEffectResult<Input, Result, Error>,
-): cer is CombinedEffectResultInSuccessState<Input, Result> => isNotEffectError(cer.result);
+): cer is CombinedEffectResultInSuccessState<Input, Result> =>
+  isNotEffectError(cer.result) && !cer.cancelled;
 
 /**
  * Type representing a {@link CombinedEffectResult} in it's success state (non-pending, hece completed effect)
@@ -127,11 +166,12 @@ export type CombinedEffectResultInCompletedSuccessState<Input, Result> = {
 
 /**
  * Typeguard to check if a {@link CombinedEffectResult} is a {@link CombinedEffectResultInCompletedSuccessState}
+ * (false for the cancelled state, because the result does not belong to the current input)
  */
 export const isCombinedEffectResultInCompletedSuccessState = <Input, Result, Error>(
   cer: CombinedEffectResult<Input, Result, Error>,
 ): cer is CombinedEffectResultInCompletedSuccessState<Input, Result> =>
-  isNotEffectError(cer.result) && !cer.resultPending;
+  isNotEffectError(cer.result) && !cer.resultPending && !cer.cancelled;
 
 /**
  * Value-type for result events produced by {@link EffectSignals}.
@@ -221,6 +261,13 @@ export type EffectInputSignals<Input> = {
    * This event has only meaning, if `withTrigger` is configured (see `EffectConfiguration`),
    * else dispatching it is a no-op. */
   trigger: EventId<undefined>;
+
+  /**
+   * Event that can be dispatched to cancel the running effect (unsubscribing all in-flight effects).
+   * `CombinedEffectResult` will then be non-pending and cancelled, keeping the previous result.
+   * The effect will be performed again, if the input changes or an invalidation event is dispatched.
+   * Dispatching it while the effect is not running is a no-op. */
+  cancel: EventId<undefined>;
 };
 
 /**
@@ -308,6 +355,75 @@ export type EffectConfiguration<Input, Result, Error> = {
 
   /** Optional string to be used as argument to calls of `getBehaviorId` and `getEventId` */
   nameExtension?: string;
+
+  /** If defined, completed successful results will be cached per input (see {@link EffectCacheConfiguration}) */
+  cache?: EffectCacheConfiguration<Input>;
+
+  /** If defined, failed effects will be retried (see {@link EffectRetryConfiguration}) */
+  retry?: EffectRetryConfiguration<Error>;
+
+  /** Specifies how new inputs are handled, while the effect is still running for a previous input (see {@link EffectConcurrency}). Defaults to 'switch' */
+  concurrency?: EffectConcurrency;
+};
+
+/**
+ * Type specifying the concurrency of {@link EffectSignals} (see `EffectConfiguration`):
+ *   - 'switch': the running effect will be unsubscribed (cancelled) and the effect will be performed for the new input
+ *   - 'merge': the effect will be performed for the new input, concurrently to the running effects
+ *   - 'concat': the effect will be performed for the new input, after all running and queued effects have completed
+ *   - 'exhaust': new inputs will be ignored while the effect is running. Once completed, the effect will be performed for the latest input (if it differs from the completed one)
+ * With 'merge' and 'concat', every performed effect dispatches its result events (hence, use one of these for save or submit effects),
+ * but only results for the latest input will become the result of `CombinedEffectResult`.
+ */
+export type EffectConcurrency = 'switch' | 'merge' | 'concat' | 'exhaust';
+
+/**
+ * Type specifying the retry of failed effects for {@link EffectSignals} (see `EffectConfiguration`).
+ * An effect attempt failed, if it completed with an `EffectError` (including `UnhandledEffectError`).
+ * While waiting for a retry, `CombinedEffectResult` will be pending with the error as result and
+ * the corresponding {@link EffectRetryState}. The error results of retried attempts will not be
+ * dispatched as result events.
+ * The delay before retry attempt n is `min(maxDelay, initialDelay * 2^(n-2))`, reduced by a random
+ * fraction of at most `jitter`.
+ *
+ * @template Error - specifies the error type of the effect
+ */
+export type EffectRetryConfiguration<Error> = {
+  /** The maximum number of attempts (including the first one). Defaults to 3 */
+  maxAttempts?: number;
+
+  /** Milliseconds to wait before the first retry. Defaults to 1000 */
+  initialDelay?: number;
+
+  /** Maximum milliseconds to wait before a retry. Defaults to 30000 */
+  maxDelay?: number;
+
+  /** Value between 0 and 1, specifying the maximum random fraction to reduce the delay by. Defaults to 0.5 */
+  jitter?: number;
+
+  /** Function to decide if the given error of the given attempt should be retried. Defaults to retry all errors */
+  shouldRetry?: (error: EffectError<Error | UnhandledEffectError>, attempt: number) => boolean;
+};
+
+/**
+ * Type specifying the result cache of {@link EffectSignals} (see `EffectConfiguration`).
+ * If the input changes to an input with cached result, the cached result will be used immediately:
+ *   - if the cached result is fresh (see staleTime), the effect will not be performed
+ *   - else, the effect will be performed in the background (`resultPending` being true, until the new result is received)
+ * Cached results will not be dispatched as result events.
+ * Invalidation (see `EffectInputSignals`) always performs the effect, regardless of the cache.
+ *
+ * @template Input - specifies the input type for the effect
+ */
+export type EffectCacheConfiguration<Input> = {
+  /** Function returning the cache key for a given input (keys are compared by strict equals). If not defined, `effectInputEquals` will be used to find cached results */
+  getKey?: (input: Input) => unknown;
+
+  /** Milliseconds a cached result is considered fresh (hence, no revalidation will be performed). Defaults to 0 */
+  staleTime?: number;
+
+  /** Milliseconds a cached result will be kept after its input is not the current input anymore. Defaults to 300000 (5 minutes) */
+  cacheTime?: number;
 };
 
 /**
@@ -326,6 +442,7 @@ const getInputSignalIds = <Input>(nameExtension?: string): EffectInputSignals<In
   input: getDerivedId<Input>(`${nameExtension ?? ''}_input`),
   invalidate: getEventId<undefined>(`${nameExtension ?? ''}_invalidate`),
   trigger: getEventId<undefined>(`${nameExtension ?? ''}_trigger`),
+  cancel: getEventId<undefined>(`${nameExtension ?? ''}_cancel`),
 });
 
 const getOutputSignalIds = <Input, Result, Error>(
@@ -346,6 +463,16 @@ type NoValueTriggeredInput = typeof NO_VALUE_TRIGGERED_INPUT;
 type InternalEffectResult<RT, Error> = {
   result: SafeEffectResult<RT, Error>;
   completed: boolean;
+  retry?: EffectRetryState;
+  cached?: boolean;
+};
+
+const getRetryDelay = (config: EffectRetryConfiguration<any>, attempt: number): number => {
+  const delay = Math.min(
+    config.maxDelay ?? 30000,
+    (config.initialDelay ?? 1000) * 2 ** (attempt - 2),
+  );
+  return Math.round(delay * (1 - (config.jitter ?? 0.5) * Math.random()));
 };
 
 type InternalResultType<Input, R> = {
@@ -354,17 +481,104 @@ type InternalResultType<Input, R> = {
   resultToken: object | null;
 };
 
-const getIsNewInput =
+type CancelledInput<Input> = {
+  input: Input;
+  token: object | null;
+};
+
+type InternalCombinedType<Input, Result, Error> = [
+  Input,
+  InternalResultType<Input, InternalEffectResult<Result, Error>>,
+  object | null,
+  Input | NoValueTriggeredInput,
+  CancelledInput<Input> | null,
+];
+
+const getIsCancelledInput =
   <Input, Result, Error>(effectInputEquals: (a: Input, b: Input) => boolean) =>
-  ([input, resultState, token]: [
-    Input,
-    InternalResultType<Input, InternalEffectResult<Result, Error>>,
-    object | null,
-    Input | NoValueTriggeredInput,
-  ]): boolean =>
-    token !== resultState.resultToken ||
-    isNoValueType(resultState.resultInput) ||
-    !effectInputEquals(input, resultState.resultInput);
+  ([input, , token, , cancelled]: InternalCombinedType<Input, Result, Error>): boolean =>
+    cancelled !== null && token === cancelled.token && effectInputEquals(input, cancelled.input);
+
+const getIsNewInput = <Input, Result, Error>(
+  effectInputEquals: (a: Input, b: Input) => boolean,
+) => {
+  const isCancelledInput = getIsCancelledInput<Input, Result, Error>(effectInputEquals);
+  return (combined: InternalCombinedType<Input, Result, Error>): boolean => {
+    const [input, resultState, token] = combined;
+    return (
+      !isCancelledInput(combined) &&
+      (token !== resultState.resultToken ||
+        isNoValueType(resultState.resultInput) ||
+        !effectInputEquals(input, resultState.resultInput))
+    );
+  };
+};
+
+const getConcurrencyOperator = <T, R>(
+  concurrency: EffectConcurrency,
+  project: (value: T) => Observable<R>,
+): OperatorFunction<T, R> => {
+  switch (concurrency) {
+    case 'merge':
+      return mergeMap(project);
+    case 'concat':
+      return concatMap(project);
+    case 'exhaust':
+      return exhaustMap(project);
+    default:
+      return switchMap(project);
+  }
+};
+
+type EffectCacheEntry<Input, Result> = {
+  input: Input;
+  result: Result;
+  updatedAt: number;
+  unusedSince: number | null;
+};
+
+type EffectCache<Input, Result> = {
+  use: (input: Input) => { result: Result; fresh: boolean } | null;
+  set: (input: Input, result: Result) => void;
+};
+
+const getEffectCache = <Input, Result>(
+  config: EffectCacheConfiguration<Input>,
+  effectInputEquals: (a: Input, b: Input) => boolean,
+): EffectCache<Input, Result> => {
+  const staleTime = config.staleTime ?? 0;
+  const cacheTime = config.cacheTime ?? 300000;
+  const getKey = config.getKey;
+  const matches = getKey
+    ? (entry: EffectCacheEntry<Input, Result>, input: Input) =>
+        getKey(entry.input) === getKey(input)
+    : (entry: EffectCacheEntry<Input, Result>, input: Input) =>
+        effectInputEquals(entry.input, input);
+  let entries: EffectCacheEntry<Input, Result>[] = [];
+  return {
+    use: input => {
+      const now = Date.now();
+      entries = entries.filter(
+        entry => entry.unusedSince === null || now - entry.unusedSince <= cacheTime,
+      );
+      entries.forEach(entry => {
+        if (matches(entry, input)) {
+          entry.unusedSince = null;
+        } else if (entry.unusedSince === null) {
+          entry.unusedSince = now;
+        }
+      });
+      const entry = entries.find(e => matches(e, input));
+      return entry ? { result: entry.result, fresh: now - entry.updatedAt < staleTime } : null;
+    },
+    set: (input, result) => {
+      entries = [
+        ...entries.filter(entry => !matches(entry, input)),
+        { input, result, updatedAt: Date.now(), unusedSince: null },
+      ];
+    },
+  };
+};
 
 const getEffectBuilder: EffectSignalsBuild = <IT, RT, ER>(
   config: EffectConfiguration<IT, RT, ER>,
@@ -436,12 +650,51 @@ const getEffectBuilder: EffectSignalsBuild = <IT, RT, ER>(
       };
     });
 
+  const retryingResultEffect = (
+    input: IT,
+    args: {
+      store: Store;
+      previousInput: IT | NoValueType;
+      previousResult: SafeEffectResult<RT, ER> | NoValueType;
+    },
+    attempt = 1,
+  ): Observable<InternalEffectResult<RT, ER>> => {
+    const retryConfig = config.retry;
+    if (!retryConfig) {
+      return internalResultEffect(input, args);
+    }
+    return internalResultEffect(input, args).pipe(
+      switchMap(result => {
+        if (
+          !result.completed ||
+          !isEffectError(result.result) ||
+          attempt >= (retryConfig.maxAttempts ?? 3) ||
+          (retryConfig.shouldRetry && !retryConfig.shouldRetry(result.result, attempt))
+        ) {
+          return of(result);
+        }
+        const retryDelay = getRetryDelay(retryConfig, attempt + 1);
+        return concat(
+          of({
+            result: result.result,
+            completed: false,
+            retry: { attempt: attempt + 1, nextRetryTime: Date.now() + retryDelay },
+          }),
+          timer(retryDelay).pipe(switchMap(() => retryingResultEffect(input, args, attempt + 1))),
+        );
+      }),
+    );
+  };
+
   const effectInputEquals = config.effectInputEquals ?? ((a, b) => a === b);
   const isNewInput = getIsNewInput<IT, RT, ER>(effectInputEquals);
+  const isCancelledInput = getIsCancelledInput<IT, RT, ER>(effectInputEquals);
 
   const inIds = getInputSignalIds<IT>(config.nameExtension);
   const outIds = getOutputSignalIds<IT, RT, ER>(config.nameExtension);
   const setup = (store: Store) => {
+    const cache = config.cache ? getEffectCache<IT, RT>(config.cache, effectInputEquals) : null;
+
     const invalidateTokenBehavior = getStateId<object | null>();
     store.addState(invalidateTokenBehavior, null);
     store.addReducer(invalidateTokenBehavior, inIds.invalidate, () => ({}));
@@ -470,22 +723,48 @@ const getEffectBuilder: EffectSignalsBuild = <IT, RT, ER>(
       NO_VALUE_TRIGGERED_INPUT,
     );
 
+    const cancelledInputEvent = getEventId<CancelledInput<IT>>();
+    const cancelledInputBehavior = getDerivedId<CancelledInput<IT> | null>();
+    store.addDerivedState(cancelledInputBehavior, store.getEventStream(cancelledInputEvent), null);
+
     store.addEventSource(
       outIds.completedResults,
       store.getEventStream(outIds.results).pipe(filter(isCompletedResultEvent)),
     );
 
+    const getCachedOrEffectResult = (
+      input: IT,
+      resultState: InternalResultType<IT, InternalEffectResult<RT, ER>>,
+      token: object | null,
+    ): Observable<InternalEffectResult<RT, ER>> => {
+      const effectResult = retryingResultEffect(input, {
+        store,
+        previousInput: resultState.resultInput,
+        previousResult: isNotNoValueType(resultState.result) ? resultState.result.result : NO_VALUE,
+      });
+      if (cache === null) {
+        return effectResult;
+      }
+      const cachingEffectResult = effectResult.pipe(
+        tap(result => {
+          if (result.completed && isNotEffectError(result.result)) {
+            cache.set(input, result.result as RT);
+          }
+        }),
+      );
+      // invalidation bypasses the cache:
+      const cached = token === resultState.resultToken ? cache.use(input) : null;
+      return cached === null
+        ? cachingEffectResult
+        : concat(
+            of({ result: cached.result, completed: cached.fresh, cached: true }),
+            cached.fresh ? EMPTY : cachingEffectResult,
+          );
+    };
+
     // It is important to setup the combined observable as behavior,
     // because a simple shareReplay (even with refCount) could create a memory leak!!!
-    const combinedId =
-      getDerivedId<
-        [
-          IT,
-          InternalResultType<IT, InternalEffectResult<RT, ER>>,
-          object | null,
-          IT | NoValueTriggeredInput,
-        ]
-      >();
+    const combinedId = getDerivedId<InternalCombinedType<IT, RT, ER>>();
     store.addDerivedState(
       combinedId,
       combineLatest([
@@ -493,6 +772,7 @@ const getEffectBuilder: EffectSignalsBuild = <IT, RT, ER>(
         store.getBehavior(resultBehavior),
         store.getBehavior(invalidateTokenBehavior),
         store.getBehavior(triggeredInputBehavior),
+        store.getBehavior(cancelledInputBehavior),
       ]),
     );
     const combined = store.getBehavior(combinedId);
@@ -502,106 +782,154 @@ const getEffectBuilder: EffectSignalsBuild = <IT, RT, ER>(
         ? combined
         : combined.pipe(debounceTime(config.effectDebounceTime));
 
+    type CombinedType = InternalCombinedType<IT, RT, ER>;
+    const isWaitingForTrigger = ([input, , , triggeredInput]: CombinedType): boolean =>
+      config.withTrigger === true && input !== triggeredInput;
+
+    // the pending state, without considering cancellation:
+    const isRunning = ([input, resultState, token, triggeredInput]: CombinedType): boolean =>
+      (!config.withTrigger || input === triggeredInput) &&
+      (token !== resultState.resultToken ||
+        resultState.resultInput === NO_VALUE ||
+        !effectInputEquals(input, resultState.resultInput) ||
+        (isNotNoValueType(resultState.result) && !resultState.result.completed));
+
+    store.addEventSource(
+      cancelledInputEvent,
+      store.getEventStream(inIds.cancel).pipe(
+        withLatestFrom(combined),
+        filter(([, c]) => isRunning(c)),
+        map(([, [input, , token]]) => ({ input, token })),
+      ),
+    );
+
+    // The number of received cancel events: effects for inputs received before the latest cancel event
+    // will be unsubscribed, or dropped if not yet started (e.g. queued inputs with concurrency 'concat').
+    const cancelCountId = getDerivedId<number>();
+    store.addDerivedState(
+      cancelCountId,
+      store.getEventStream(inIds.cancel).pipe(scan(count => count + 1, 0)),
+      0,
+    );
+    const cancelCount = store.getBehavior(cancelCountId);
+
+    // With 'merge' and 'concat', results of outdated inputs might be received after newer inputs
+    // have been passed to the effect. Such results must not become the internal result.
+    const concurrency = config.concurrency ?? 'switch';
+    let latestEffectInput: { input: IT; token: object | null } | null = null;
+    const isOutdated = (input: IT, token: object | null): boolean =>
+      (concurrency === 'merge' || concurrency === 'concat') &&
+      latestEffectInput !== null &&
+      (latestEffectInput.token !== token || !effectInputEquals(latestEffectInput.input, input));
+
+    const getResultEvents = (
+      input: IT,
+      token: object | null,
+      result: InternalEffectResult<RT, ER>,
+    ): Observable<
+      | TypedEvent<InternalResultType<IT, InternalEffectResult<RT, ER>>>
+      | TypedEvent<EffectResultEvent<IT, RT, ER>>
+    > => {
+      const internalResultEvent = {
+        type: resultEvent,
+        event: {
+          // InternalResultType<IT, InternalEffectResult<RT>>
+          result,
+          resultInput: input,
+          resultToken: token,
+        },
+      };
+      const outdated = isOutdated(input, token);
+      // cached results and failed attempts to be retried are no result events:
+      if (result.cached || result.retry) {
+        return outdated ? EMPTY : of(internalResultEvent);
+      }
+      const resultsEvent = {
+        type: outIds.results,
+        event: {
+          // EffectResultEvent<IT, RT, ER>
+          result: result.result,
+          resultInput: input,
+          // previousInput: resultState.resultInput,
+          // previousResult: isNotNoValueType(resultState.result)
+          //   ? resultState.result.result
+          //   : NO_VALUE,
+          completed: result.completed,
+        },
+      };
+      return outdated ? of(resultsEvent) : of(internalResultEvent, resultsEvent);
+    };
+
+    const newInput = eventSourceInput.pipe(filter(isNewInput));
     store.add3TypedEventSource(
       resultEvent,
       triggeredInputEvent,
       outIds.results,
-      eventSourceInput.pipe(
-        filter(isNewInput),
-        switchMap(
-          ([input, resultState, token, triggeredInput]: [
-            IT,
-            InternalResultType<IT, InternalEffectResult<RT, ER>>,
-            object | null,
-            IT | NoValueTriggeredInput,
-          ]) =>
-            config.withTrigger && input !== triggeredInput
+      merge(
+        newInput.pipe(
+          switchMap(tuple =>
+            isWaitingForTrigger(tuple)
               ? store.getEventStream(inIds.trigger).pipe(
                   map(() => ({
                     type: triggeredInputEvent,
-                    event: input,
+                    event: tuple[0],
                   })),
                 )
-              : internalResultEffect(input, {
-                  store,
-                  previousInput: resultState.resultInput,
-                  previousResult: isNotNoValueType(resultState.result)
-                    ? resultState.result.result
-                    : NO_VALUE,
-                }).pipe(
-                  switchMap((result: InternalEffectResult<RT, ER>) =>
-                    of(
-                      {
-                        type: resultEvent,
-                        event: {
-                          // InternalResultType<IT, InternalEffectResult<RT>>
-                          result,
-                          resultInput: input,
-                          resultToken: token,
-                        },
-                      },
-                      {
-                        type: outIds.results,
-                        event: {
-                          // EffectResultEvent<IT, RT, ER>
-                          result: result.result,
-                          resultInput: input,
-                          // previousInput: resultState.resultInput,
-                          // previousResult: isNotNoValueType(resultState.result)
-                          //   ? resultState.result.result
-                          //   : NO_VALUE,
-                          completed: result.completed,
-                        },
-                      },
-                    ),
+              : EMPTY,
+          ),
+        ),
+        newInput.pipe(
+          tap(tuple => {
+            if (!isWaitingForTrigger(tuple)) {
+              latestEffectInput = { input: tuple[0], token: tuple[2] };
+            }
+          }),
+          withLatestFrom(cancelCount),
+          getConcurrencyOperator(concurrency, ([tuple, count]: [CombinedType, number]) =>
+            isWaitingForTrigger(tuple)
+              ? EMPTY // with 'switch', this cancels the running effect
+              : cancelCount.pipe(
+                  take(1),
+                  switchMap(currentCount =>
+                    currentCount !== count
+                      ? EMPTY
+                      : getCachedOrEffectResult(tuple[0], tuple[1], tuple[2]).pipe(
+                          switchMap(result => getResultEvents(tuple[0], tuple[2], result)),
+                          takeUntil(cancelCount.pipe(filter(c => c !== count))),
+                        ),
                   ),
                 ),
+          ),
         ),
       ),
       resultEvent,
     );
 
-    const getIsPending = config.withTrigger
-      ? ([input, resultState, token, triggeredInput]: [
-          IT,
-          InternalResultType<IT, InternalEffectResult<RT, ER>>,
-          object | null,
-          IT | NoValueTriggeredInput,
-        ]) =>
-          input === triggeredInput &&
-          (token !== resultState.resultToken ||
-            resultState.resultInput === NO_VALUE ||
-            !effectInputEquals(input, resultState.resultInput) ||
-            (isNotNoValueType(resultState.result) && !resultState.result.completed))
-      : ([input, resultState, token]: [
-          IT,
-          InternalResultType<IT, InternalEffectResult<RT, ER>>,
-          object | null,
-          IT | NoValueTriggeredInput,
-        ]) =>
-          token !== resultState.resultToken ||
-          resultState.resultInput === NO_VALUE ||
-          !effectInputEquals(input, resultState.resultInput) ||
-          (isNotNoValueType(resultState.result) && !resultState.result.completed);
-
     store.addDerivedState(
       outIds.combined,
       combined.pipe(
-        map(([input, resultState, token, triggeredInput]) =>
-          getIsPending([input, resultState, token, triggeredInput])
-            ? {
-                currentInput: input,
-                result: isNotNoValueType(resultState.result) ? resultState.result.result : NO_VALUE,
-                resultInput: resultState.resultInput,
-                resultPending: true,
-              }
-            : {
-                currentInput: input,
-                result: isNotNoValueType(resultState.result) ? resultState.result.result : NO_VALUE,
-                resultInput: resultState.resultInput,
-                resultPending: false,
-              },
-        ),
+        map(c => {
+          const [input, resultState] = c;
+          const combinedResult = {
+            currentInput: input,
+            result: isNotNoValueType(resultState.result) ? resultState.result.result : NO_VALUE,
+            resultInput: resultState.resultInput,
+            resultPending: false,
+          };
+          if (!isRunning(c)) {
+            return combinedResult;
+          }
+          if (isCancelledInput(c)) {
+            return { ...combinedResult, cancelled: true };
+          }
+          return {
+            ...combinedResult,
+            resultPending: true,
+            ...(isNotNoValueType(resultState.result) && resultState.result.retry
+              ? { retry: resultState.result.retry }
+              : {}),
+          };
+        }),
       ),
       config.initialResultGetter
         ? {
@@ -0,0 +1,437 @@
+import { filter, map } from 'rxjs';
+import {
+  EffectOutputSignals,
+  getEffectSignalsFactory,
+  isCombinedEffectResultInCompletedSuccessState,
+} from './effect-signals-factory';
+import { shallowEquals } from './entity-edit-signals-factory';
+import { Signals, SignalsFactory } from './signals-factory';
+import {
+  DerivedId,
+  EffectId,
+  EventId,
+  getDerivedId,
+  getEventId,
+  getStateId,
+  NO_VALUE,
+} from './store-utils';
+
+/**
+ * The normalized state of an entity collection, hence the entity ids and a record mapping each id to its entity.
+ *
+ * @template Entity - specifies the entity type
+ * @template Id - specifies the type of the entity ids
+ */
+export type EntityCollection<Entity, Id extends string | number> = {
+  /** the ids of all entities (sorted, if a `sortComparer` is configured, else in insertion order) */
+  ids: Id[];
+
+  /** record mapping each id to the corresponding entity */
+  entities: Record<Id, Entity>;
+};
+
+/**
+ * The event-value-type for the updateOne event of an {@link EntityCollectionSignalsFactory}
+ *
+ * @template Entity - specifies the entity type
+ * @template Id - specifies the type of the entity ids
+ */
+export type EntityUpdate<Entity, Id extends string | number> = {
+  /** the id of the entity to be updated */
+  id: Id;
+
+  /** the changes to be applied to the entity (ignored, if no entity with the given id exists) */
+  changes: Partial<Entity>;
+};
+
+/**
+ * Type specifying the input signal ids produced by an {@link EntityCollectionSignalsFactory}.
+ *
+ * @template Entity - specifies the entity type
+ * @template Id - specifies the type of the entity ids
+ * @template LoadInput - specifies the input-type for the load-effect
+ */
+export type EntityCollectionInputSignals<Entity, Id extends string | number, LoadInput> = {
+  /** identifier for the event to replace all entities */
+  setAll: EventId<Entity[]>;
+
+  /** identifier for the event to add an entity, or to update it (shallow merge), if it already exists */
+  upsertOne: EventId<Entity>;
+
+  /** like upsertOne, but for multiple entities */
+  upsertMany: EventId<Entity[]>;
+
+  /** identifier for the event to update an existing entity (see {@link EntityUpdate}) */
+  updateOne: EventId<EntityUpdate<Entity, Id>>;
+
+  /** identifier for the event to remove the entity with the given id */
+  removeOne: EventId<Id>;
+
+  /** identifier for the event to remove the entities with the given ids */
+  removeMany: EventId<Id[]>;
+
+  /** identifier for the event to remove all entities */
+  removeAll: EventId<undefined>;
+
+  /** identifier for the event to set the filter for the filtered output (null removes the filter) */
+  setFilter: EventId<((entity: Entity) => boolean) | null>;
+
+  /** identifier for the event to select the entity with the given id (null removes the selection) */
+  select: EventId<Id | null>;
+
+  /** input for the load effect (a successful load result replaces all entities) */
+  load: DerivedId<LoadInput>;
+
+  /** trigger the load effect again for the current load input */
+  reload: EventId<undefined>;
+};
+
+/**
+ * Type specifying the output signal ids produced by an {@link EntityCollectionSignalsFactory}.
+ *
+ * @template Entity - specifies the entity type
+ * @template Id - specifies the type of the entity ids
+ * @template LoadInput - specifies the input-type for the load-effect
+ * @template LoadError - specifies the error type of the load-effect
+ */
+export type EntityCollectionOutputSignals<
+  Entity,
+  Id extends string | number,
+  LoadInput,
+  LoadError,
+> = {
+  /** identifier for the behavior of the normalized {@link EntityCollection} */
+  collection: DerivedId<EntityCollection<Entity, Id>>;
+
+  /** identifier for the behavior of all entity ids */
+  ids: DerivedId<Id[]>;
+
+  /** identifier for the behavior of the record mapping ids to entities (see {@link selectEntityById} to select a single entity) */
+  entities: DerivedId<Record<Id, Entity>>;
+
+  /** identifier for the behavior of all entities (sorted, if a `sortComparer` is configured) */
+  all: DerivedId<Entity[]>;
+
+  /** identifier for the behavior of all entities matching the current filter (see setFilter input) */
+  filtered: DerivedId<Entity[]>;
+
+  /** identifier for the behavior of the selected entity (see select input), or null if there is none */
+  selected: DerivedId<Entity | null>;
+
+  /** {@link EffectOutputSignals} for the load effect */
+  load: EffectOutputSignals<LoadInput, Entity[], LoadError>;
+};
+
+/**
+ * Type specifying the configuration of an {@link EntityCollectionSignalsFactory}.
+ *
+ * @template Entity - specifies the entity type
+ * @template Id - specifies the type of the entity ids
+ */
+export type EntityCollectionConfig<Entity, Id extends string | number> = {
+  /** function returning the id of a given entity (defaults to `entity.id`) */
+  selectId?: (entity: Entity) => Id;
+
+  /** optional compare function to keep the ids (and all entities) sorted */
+  sortComparer?: (a: Entity, b: Entity) => number;
+
+  /** specifies whether the load behavior should be subscribed eagerly (defaults to false) */
+  eagerLoadSubscription?: boolean;
+
+  /** optional string to be used as argument to calls of `getBehaviorId` and `getEventId` */
+  nameExtension?: string;
+};
+
+/**
+ * Type specifying the effects of an {@link EntityCollectionSignalsFactory}.
+ *
+ * @template Entity - specifies the entity type
+ * @template LoadInput - specifies the input-type for the load-effect
+ * @template LoadError - specifies the error type of the load-effect
+ */
+export type EntityCollectionEffects<Entity, LoadInput, LoadError> = {
+  /** effect that takes the load input and returns all entities of the collection */
+  load: EffectId<LoadInput, Entity[], LoadError>;
+};
+
+type EntityCollectionModel<Entity, Id extends string | number> = EntityCollection<Entity, Id> & {
+  filter: ((entity: Entity) => boolean) | null;
+  selectedId: Id | null;
+};
+
+const selectEntityId = <Entity, Id>(entity: Entity): Id => (entity as Entity & { id: Id }).id;
+
+const hasEntity = <Entity, Id extends string | number>(
+  entities: Record<Id, Entity>,
+  id: Id,
+): boolean => Object.prototype.hasOwnProperty.call(entities, id);
+
+/**
+ * This function returns the entity with the given id from the given entities record
+ * (see `entities` of {@link EntityCollectionOutputSignals}), or null, if there is none.
+ * In contrast to `entities[id]`, it only considers own keys of the record.
+ *
+ * ```ts
+ *    const todo3 = store.getBehavior(output.entities).pipe(map(e => selectEntityById(e, 3)));
+ * ```
+ *
+ * @template Entity - specifies the entity type
+ * @template Id - specifies the type of the entity ids
+ * @param {Record<Id, Entity>} entities - the record mapping ids to entities
+ * @param {Id} id - the id of the entity to be selected
+ * @returns {Entity | null}
+ */
+export const selectEntityById = <Entity, Id extends string | number>(
+  entities: Record<Id, Entity>,
+  id: Id,
+): Entity | null => (hasEntity(entities, id) ? entities[id] : null);
+
+const getEntityCollectionSignals = <Entity, Id extends string | number>(
+  config: EntityCollectionConfig<Entity, Id>,
+): Signals<
+  Omit<EntityCollectionInputSignals<Entity, Id, any>, 'load' | 'reload'>,
+  Omit<EntityCollectionOutputSignals<Entity, Id, any, any>, 'load'>
+> => {
+  const selectId = config.selectId ?? ((entity: Entity) => selectEntityId<Entity, Id>(entity));
+  const getIds = (ids: Id[], entities: Record<Id, Entity>): Id[] =>
+    config.sortComparer
+      ? ids
+          .map(id => entities[id])
+          .sort(config.sortComparer)
+          .map(selectId)
+      : ids;
+  const upsert = (
+    model: EntityCollectionModel<Entity, Id>,
+    upserts: Entity[],
+  ): EntityCollectionModel<Entity, Id> => {
+    const entities = upserts.reduce(
+      (acc, entity) => {
+        const id = selectId(entity);
+        acc[id] = hasEntity(acc, id) ? { ...acc[id], ...entity } : entity;
+        return acc;
+      },
+      { ...model.entities },
+    );
+    const ids = upserts
+      .map(selectId)
+      .reduce((acc, id) => (acc.includes(id) ? acc : [...acc, id]), model.ids);
+    return { ...model, ids: getIds(ids, entities), entities };
+  };
+  const remove = (
+    model: EntityCollectionModel<Entity, Id>,
+    removals: Id[],
+  ): EntityCollectionModel<Entity, Id> => {
+    const entities = { ...model.entities };
+    removals.forEach(id => delete entities[id]);
+    return {
+      ...model,
+      ids: model.ids.filter(id => !removals.includes(id)),
+      entities,
+      selectedId:
+        model.selectedId !== null && removals.includes(model.selectedId) ? null : model.selectedId,
+    };
+  };
+
+  const modelId = getStateId<EntityCollectionModel<Entity, Id>>(
+    `${config.nameExtension ?? ''}_entityCollection`,
+  );
+  const collection = getDerivedId<EntityCollection<Entity, Id>>(
+    `${config.nameExtension ?? ''}_collection`,
+  );
+  const ids = getDerivedId<Id[]>(`${config.nameExtension ?? ''}_ids`);
+  const entities = getDerivedId<Record<Id, Entity>>(`${config.nameExtension ?? ''}_entities`);
+  const all = getDerivedId<Entity[]>(`${config.nameExtension ?? ''}_all`);
+  const filtered = getDerivedId<Entity[]>(`${config.nameExtension ?? ''}_filtered`);
+  const selected = getDerivedId<Entity | null>(`${config.nameExtension ?? ''}_selected`);
+  const setAll = getEventId<Entity[]>(`${config.nameExtension ?? ''}_setAll`);
+  const upsertOne = getEventId<Entity>(`${config.nameExtension ?? ''}_upsertOne`);
+  const upsertMany = getEventId<Entity[]>(`${config.nameExtension ?? ''}_upsertMany`);
+  const updateOne = getEventId<EntityUpdate<Entity, Id>>(`${config.nameExtension ?? ''}_updateOne`);
+  const removeOne = getEventId<Id>(`${config.nameExtension ?? ''}_removeOne`);
+  const removeMany = getEventId<Id[]>(`${config.nameExtension ?? ''}_removeMany`);
+  const removeAll = getEventId<undefined>(`${config.nameExtension ?? ''}_removeAll`);
+  const setFilter = getEventId<((entity: Entity) => boolean) | null>(
+    `${config.nameExtension ?? ''}_setFilter`,
+  );
+  const select = getEventId<Id | null>(`${config.nameExtension ?? ''}_select`);
+
+  return {
+    input: {
+      setAll,
+      upsertOne,
+      upsertMany,
+      updateOne,
+      removeOne,
+      removeMany,
+      removeAll,
+      setFilter,
+      select,
+    },
+    output: {
+      collection,
+      ids,
+      entities,
+      all,
+      filtered,
+      selected,
+    },
+    effects: {},
+    setup: store => {
+      store.addState(modelId, {
+        ids: [],
+        entities: {} as Record<Id, Entity>,
+        filter: null,
+        selectedId: null,
+      });
+      store.addReducer(modelId, setAll, (state, event) =>
+        upsert({ ...state, ids: [], entities: {} as Record<Id, Entity> }, event),
+      );
+      store.addReducer(modelId, upsertOne, (state, event) => upsert(state, [event]));
+      store.addReducer(modelId, upsertMany, (state, event) => upsert(state, event));
+      store.addReducer(modelId, updateOne, (state, event) =>
+        hasEntity(state.entities, event.id)
+          ? upsert(state, [{ ...state.entities[event.id], ...event.changes }])
+          : state,
+      );
+      store.addReducer(modelId, removeOne, (state, event) => remove(state, [event]));
+      store.addReducer(modelId, removeMany, (state, event) => remove(state, event));
+      store.addReducer(modelId, removeAll, state => remove(state, state.ids));
+      store.addReducer(modelId, setFilter, (state, event) => ({ ...state, filter: event }));
+      store.addReducer(modelId, select, (state, event) => ({ ...state, selectedId: event }));
+      store.addDerivedState(
+        collection,
+        store
+          .getBehavior(modelId)
+          .pipe(map(model => ({ ids: model.ids, entities: model.entities }))),
+        NO_VALUE,
+        { equals: (a, b) => a.ids === b.ids && a.entities === b.entities },
+      );
+      store.addDerivedState(ids, store.getBehavior(collection).pipe(map(c => c.ids)));
+      store.addDerivedState(entities, store.getBehavior(collection).pipe(map(c => c.entities)));
+      store.addDerivedState(
+        all,
+        store.getBehavior(collection).pipe(map(c => c.ids.map(id => c.entities[id]))),
+      );
+      store.addDerivedState(
+        filtered,
+        store
+          .getBehavior(modelId)
+          .pipe(
+            map(model =>
+              model.ids
+                .map(id => model.entities[id])
+                .filter(entity => model.filter === null || model.filter(entity)),
+            ),
+          ),
+        NO_VALUE,
+        { equals: shallowEquals },
+      );
+      store.addDerivedState(
+        selected,
+        store
+          .getBehavior(modelId)
+          .pipe(
+            map(model =>
+              model.selectedId !== null ? selectEntityById(model.entities, model.selectedId) : null,
+            ),
+          ),
+      );
+    },
+  };
+};
+
+/**
+ * This type specifies a {@link SignalsFactory} producing signals to handle a normalized collection of entities.
+ *
+ * @template Entity - specifies the entity type
+ * @template Id - specifies the type of the entity ids (defaults to number)
+ * @template LoadInput - specifies the input-type for the load-effect (defaults to undefined)
+ * @template LoadError - specifies the error type of the load-effect (defaults to string)
+ */
+export type EntityCollectionSignalsFactory<
+  Entity,
+  Id extends string | number = number,
+  LoadInput = undefined,
+  LoadError = string,
+> = SignalsFactory<
+  EntityCollectionInputSignals<Entity, Id, LoadInput>,
+  EntityCollectionOutputSignals<Entity, Id, LoadInput, LoadError>,
+  EntityCollectionConfig<Entity, Id>,
+  EntityCollectionEffects<Entity, LoadInput, LoadError>
+>;
+
+/**
+ * Generic function to create a specific {@link EntityCollectionSignalsFactory}.
+ * The factory handles a normalized collection of entities (in analogy to ngrx/entity), composing
+ * (a) EffectSignalsFactory for loading the collection (successful load results replace all entities)
+ * (b) signals to update, sort, filter and select the entities
+ *
+ * @template Entity - specifies the entity type
+ * @template Id - specifies the type of the entity ids (defaults to number)
+ * @template LoadInput - specifies the input-type for the load-effect (defaults to undefined)
+ * @template LoadError - specifies the error type of the load-effect (defaults to string)
+ * @returns {EntityCollectionSignalsFactory<Entity, Id, LoadInput, LoadError>}
+ */
+export const getEntityCollectionSignalsFactory = <
+  Entity,
+  Id extends string | number = number,
+  LoadInput = undefined,
+  LoadError = string,
+>(): EntityCollectionSignalsFactory<Entity, Id, LoadInput, LoadError> =>
+  getEffectSignalsFactory<LoadInput, Entity[], LoadError>() // loading the collection
+    .compose(
+      new SignalsFactory((config: EntityCollectionConfig<Entity, Id>) =>
+        getEntityCollectionSignals<Entity, Id>(config),
+      ),
+    ) // handling the collection
+    .connectObservable(
+      ({ store, output }) =>
+        store.getBehavior(output.combined).pipe(
+          filter(isCombinedEffectResultInCompletedSuccessState),
+          map(result => result.result),
+        ),
+      'setAll',
+      true,
+    ) // connecting load results to the collection
+    .mapConfig((config: EntityCollectionConfig<Entity, Id>) => ({
+      c1: {
+        eagerInputSubscription: config.eagerLoadSubscription,
+        nameExtension: config.nameExtension,
+      },
+      c2: config,
+    }))
+    .mapInput(
+      (ids): EntityCollectionInputSignals<Entity, Id, LoadInput> => ({
+        setAll: ids.setAll,
+        upsertOne: ids.upsertOne,
+        upsertMany: ids.upsertMany,
+        updateOne: ids.updateOne,
+        removeOne: ids.removeOne,
+        removeMany: ids.removeMany,
+        removeAll: ids.removeAll,
+        setFilter: ids.setFilter,
+        select: ids.select,
+        load: ids.input,
+        reload: ids.invalidate,
+      }),
+    )
+    .mapOutput(
+      (ids): EntityCollectionOutputSignals<Entity, Id, LoadInput, LoadError> => ({
+        collection: ids.collection,
+        ids: ids.ids,
+        entities: ids.entities,
+        all: ids.all,
+        filtered: ids.filtered,
+        selected: ids.selected,
+        load: {
+          combined: ids.combined,
+          results: ids.results,
+          completedResults: ids.completedResults,
+        },
+      }),
+    )
+    .mapEffects(
+      (ids): EntityCollectionEffects<Entity, LoadInput, LoadError> => ({
+        load: ids.id,
+      }),
+    );
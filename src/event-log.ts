@@ -0,0 +1,81 @@
+import type { FileSystem } from './state-persistence';
+
+/**
+ * An entry of an {@link EventLog}, as written by the {@link Store} in event sourcing mode
+ * (see `store.enableEventSourcing`).
+ */
+export type EventLogEntry = Readonly<{
+  /** the sequence number of the entry, starting with 1 */
+  sequence: number;
+
+  /** the time of logging the event, as milliseconds since epoch (if not configured differently) */
+  timestamp: number;
+
+  /** the stable name of the event type (see `EventSourcingOptions`) */
+  name: string;
+
+  /** the event value */
+  event: unknown;
+}>;
+
+/**
+ * An `EventLog` is used by the {@link Store} in event sourcing mode to persist events
+ * (see `store.enableEventSourcing`). See also {@link getInMemoryEventLog} and {@link getJsonLinesEventLog}.
+ */
+export type EventLog = {
+  /** append the given entry to the log */
+  append: (entry: EventLogEntry) => void;
+
+  /** read all entries of the log, ordered by sequence number */
+  read: () => EventLogEntry[];
+};
+
+/**
+ * This function returns an {@link EventLog} that keeps all entries in memory.
+ * This is e.g. useful for tests.
+ *
+ * @returns {EventLog}
+ */
+export const getInMemoryEventLog = (): EventLog => {
+  const entries: EventLogEntry[] = [];
+  return {
+    append: entry => {
+      entries.push(entry);
+    },
+    read: () => [...entries],
+  };
+};
+
+/**
+ * The subset of the Node.js `fs` module used by {@link getJsonLinesEventLog}
+ * (extending the read functions of {@link FileSystem} by `appendFileSync`).
+ */
+export type EventLogFileSystem = Pick<FileSystem, 'existsSync' | 'readFileSync'> & {
+  appendFileSync: (path: string, data: string) => void;
+};
+
+/**
+ * This function returns an {@link EventLog} that appends each entry as one line of JSON
+ * to the given file (JSON Lines format). The file will be created, if it does not exist.
+ * The event values must be JSON-serializable.
+ *
+ * ```ts
+ *    import * as fs from 'fs';
+ *    const log = getJsonLinesEventLog(fs, '/path/to/events.jsonl');
+ * ```
+ *
+ * @param {EventLogFileSystem} fs - the Node.js `fs` module
+ * @param {string} path - the path of the log file
+ * @returns {EventLog}
+ */
+export const getJsonLinesEventLog = (fs: EventLogFileSystem, path: string): EventLog => ({
+  append: entry => fs.appendFileSync(path, `${JSON.stringify(entry)}\n`),
+  read: () =>
+    fs.existsSync(path)
+      ? fs
+          .readFileSync(path, 'utf8')
+          .split('\n')
+          .filter(line => line.trim() !== '')
+          .map(line => JSON.parse(line) as EventLogEntry)
+      : [],
+});
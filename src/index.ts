@@ -1,11 +1,19 @@
+export { EventQueueScheduler } from './delayed-event-queue';
+export * from './dependency-graph';
 export * from './effect-result';
 export * from './effect-signals-factory';
+export * from './entity-collection-signals-factory';
 export * from './entity-edit-signals-factory';
+export * from './event-log';
 export * from './model-signals-factory';
 export * from './optional-lens';
+export * from './paged-query-signals-factory';
+export * from './redux-devtools';
 export * from './signals-factory';
+export * from './state-machine-signals-factory';
+export * from './state-persistence';
 export * from './store';
 export * from './store-utils';
-export { expectSequence, getSequence } from './test-utils/test-utils';
+export { expectSequence, getSequence, waitFor } from './test-utils/test-utils';
 export * from './type-utils';
 export * from './validated-input-with-result-signals-factory';
@@ -0,0 +1,382 @@
+import { filter, ignoreElements, map, merge } from 'rxjs';
+import { isNotEffectError } from './effect-result';
+import {
+  CombinedEffectResult,
+  EffectResultEvent,
+  getEffectSignalsFactory,
+} from './effect-signals-factory';
+import { Signals, SignalsFactory } from './signals-factory';
+import { SafeEffectResult } from './store';
+import {
+  DerivedId,
+  EffectId,
+  EventId,
+  NO_VALUE,
+  NoValueType,
+  getDerivedId,
+  getEventId,
+  getStateId,
+  isNoValueType,
+  isNotNoValueType,
+} from './store-utils';
+
+/**
+ * Value-type for the request input of {@link PagedQuerySignalsFactory}.
+ *
+ * @template Filter - specifies the filter type of the query
+ * @template Sort - specifies the sort type of the query
+ */
+export type PageRequest<Filter, Sort> = {
+  /** the query filter */
+  filter: Filter;
+
+  /** the query sort order */
+  sort: Sort;
+
+  /** the number of items per page */
+  pageSize: number;
+};
+
+/**
+ * Input-type for the page effect of {@link PagedQuerySignalsFactory}, hence the {@link PageRequest} plus the page to be loaded.
+ *
+ * @template Filter - specifies the filter type of the query
+ * @template Sort - specifies the sort type of the query
+ */
+export type PageEffectInput<Filter, Sort> = PageRequest<Filter, Sort> & {
+  /** the index of the page to be loaded (starting with 0) */
+  page: number;
+};
+
+/**
+ * Result-type for the page effect of {@link PagedQuerySignalsFactory}.
+ *
+ * @template Item - specifies the item type of the query result
+ */
+export type PageResult<Item> = {
+  /** the items of the requested page */
+  items: Item[];
+
+  /** the total count of items matching the query */
+  totalCount: number;
+};
+
+/**
+ * The state of a single page of {@link PagedQuerySignalsFactory}.
+ *
+ * @template Item - specifies the item type of the query result
+ * @template Error - specifies the error type of the page effect
+ */
+export type PageState<Item, Error> = {
+  /** the index of the page (starting with 0) */
+  page: number;
+
+  /** true, if the page effect for this page has not yet completed */
+  pending: boolean;
+
+  /** the page result, or NO_VALUE if no result was received yet */
+  result: SafeEffectResult<PageResult<Item>, Error> | NoValueType;
+};
+
+/**
+ * Value-type for the combined behavior of {@link PagedQuerySignalsFactory}.
+ *
+ * @template Filter - specifies the filter type of the query
+ * @template Sort - specifies the sort type of the query
+ * @template Item - specifies the item type of the query result
+ * @template Error - specifies the error type of the page effect
+ */
+export type CombinedPagedQueryResult<Filter, Sort, Item, Error> = {
+  /** the current request, or NO_VALUE if no request was received yet */
+  request: PageRequest<Filter, Sort> | NoValueType;
+
+  /** the state of all pages requested for the current request (reset on request change and refresh) */
+  pages: PageState<Item, Error>[];
+
+  /** the items of all successfully loaded pages (hence, the list to be shown for infinite scroll) */
+  items: Item[];
+
+  /** the total count of the latest successful page result, or NO_VALUE */
+  totalCount: number | NoValueType;
+
+  /** true, if the total count is known and there are further pages to be loaded */
+  hasMore: boolean;
+
+  /** true, if one of the pages is pending */
+  pending: boolean;
+};
+
+/**
+ * Type specifying the input signal ids produced by a {@link PagedQuerySignalsFactory}.
+ *
+ * @template Filter - specifies the filter type of the query
+ * @template Sort - specifies the sort type of the query
+ */
+export type PagedQueryInputSignals<Filter, Sort> = {
+  /** Behavior being consumed as request (each new request resets the pages and loads the first page) */
+  request: DerivedId<PageRequest<Filter, Sort>>;
+
+  /**
+   * Event to load the next page.
+   * This is a no-op, if a page is pending or if there are no more pages.
+   * If the last page errored, it will load this page again.
+   */
+  loadNext: EventId<undefined>;
+
+  /** Event to reset the pages and load the first page again for the current request */
+  refresh: EventId<undefined>;
+};
+
+/**
+ * Type specifying the output signal ids produced by a {@link PagedQuerySignalsFactory}.
+ *
+ * @template Filter - specifies the filter type of the query
+ * @template Sort - specifies the sort type of the query
+ * @template Item - specifies the item type of the query result
+ * @template Error - specifies the error type of the page effect
+ */
+export type PagedQueryOutputSignals<Filter, Sort, Item, Error> = {
+  /** Produced combined paged query result behavior */
+  combined: DerivedId<CombinedPagedQueryResult<Filter, Sort, Item, Error>>;
+
+  /** Produced page result events (see {@link EffectResultEvent}) */
+  pageResults: EventId<EffectResultEvent<PageEffectInput<Filter, Sort>, PageResult<Item>, Error>>;
+};
+
+/**
+ * Type specifying the configuration of a {@link PagedQuerySignalsFactory}.
+ */
+export type PagedQueryConfiguration = {
+  /** Optional string to be used as argument to calls of `getBehaviorId` and `getEventId` */
+  nameExtension?: string;
+};
+
+/**
+ * Type specifying the effects of a {@link PagedQuerySignalsFactory}.
+ *
+ * @template Filter - specifies the filter type of the query
+ * @template Sort - specifies the sort type of the query
+ * @template Item - specifies the item type of the query result
+ * @template Error - specifies the error type of the page effect
+ */
+export type PagedQueryEffects<Filter, Sort, Item, Error> = {
+  /** effect that takes a {@link PageEffectInput} and returns the corresponding {@link PageResult} */
+  page: EffectId<PageEffectInput<Filter, Sort>, PageResult<Item>, Error>;
+};
+
+type PagedQueryModel<Filter, Sort, Item, Error> = {
+  request: PageRequest<Filter, Sort> | NoValueType;
+  pageInput: PageEffectInput<Filter, Sort> | NoValueType;
+  pages: PageState<Item, Error>[];
+  totalCount: number | NoValueType;
+};
+
+const hasMorePages = (model: PagedQueryModel<any, any, any, any>): boolean =>
+  isNotNoValueType(model.request) &&
+  isNotNoValueType(model.totalCount) &&
+  model.pages.length * model.request.pageSize < model.totalCount;
+
+const requestPage = <Filter, Sort, Item, Error>(
+  model: PagedQueryModel<Filter, Sort, Item, Error>,
+  request: PageRequest<Filter, Sort>,
+  page: number,
+): PagedQueryModel<Filter, Sort, Item, Error> => ({
+  request,
+  pageInput: { ...request, page },
+  pages: [
+    ...(page === 0 ? [] : model.pages.filter(p => p.page < page)),
+    { page, pending: true, result: NO_VALUE },
+  ],
+  totalCount: page === 0 ? NO_VALUE : model.totalCount,
+});
+
+type PagedQueryModelInput<Filter, Sort, Item, Error> = PagedQueryInputSignals<Filter, Sort> & {
+  pageResults: EventId<EffectResultEvent<PageEffectInput<Filter, Sort>, PageResult<Item>, Error>>;
+  effectCombined: DerivedId<
+    CombinedEffectResult<PageEffectInput<Filter, Sort>, PageResult<Item>, Error>
+  >;
+};
+
+type PagedQueryModelOutput<Filter, Sort, Item, Error> = {
+  pageInput: DerivedId<PageEffectInput<Filter, Sort>>;
+  pagedCombined: DerivedId<CombinedPagedQueryResult<Filter, Sort, Item, Error>>;
+};
+
+const getPagedQueryModelSignals = <Filter, Sort, Item, Error>(
+  config: PagedQueryConfiguration,
+): Signals<
+  PagedQueryModelInput<Filter, Sort, Item, Error>,
+  PagedQueryModelOutput<Filter, Sort, Item, Error>
+> => {
+  const model = getStateId<PagedQueryModel<Filter, Sort, Item, Error>>(
+    `${config.nameExtension ?? ''}_pagedQueryModel`,
+  );
+  const requestChanged = getEventId<PageRequest<Filter, Sort>>(
+    `${config.nameExtension ?? ''}_requestChanged`,
+  );
+  const request = getDerivedId<PageRequest<Filter, Sort>>(`${config.nameExtension ?? ''}_request`);
+  const loadNext = getEventId<undefined>(`${config.nameExtension ?? ''}_loadNext`);
+  const refresh = getEventId<undefined>(`${config.nameExtension ?? ''}_refresh`);
+  const pageResults = getEventId<
+    EffectResultEvent<PageEffectInput<Filter, Sort>, PageResult<Item>, Error>
+  >(`${config.nameExtension ?? ''}_pageResults`);
+  const effectCombined = getDerivedId<
+    CombinedEffectResult<PageEffectInput<Filter, Sort>, PageResult<Item>, Error>
+  >(`${config.nameExtension ?? ''}_effectCombined`);
+  const pageInput = getDerivedId<PageEffectInput<Filter, Sort>>(
+    `${config.nameExtension ?? ''}_pageInput`,
+  );
+  const pagedCombined = getDerivedId<CombinedPagedQueryResult<Filter, Sort, Item, Error>>(
+    `${config.nameExtension ?? ''}_pagedCombined`,
+  );
+  return {
+    input: {
+      request,
+      loadNext,
+      refresh,
+      pageResults,
+      effectCombined,
+    },
+    output: {
+      pageInput,
+      pagedCombined,
+    },
+    effects: {},
+    setup: store => {
+      store.addState(model, {
+        request: NO_VALUE,
+        pageInput: NO_VALUE,
+        pages: [],
+        totalCount: NO_VALUE,
+      });
+      store.connect(request, requestChanged);
+      store.addReducer(model, requestChanged, (state, event) => requestPage(state, event, 0));
+      store.addReducer(model, refresh, state =>
+        isNoValueType(state.request) ? state : requestPage(state, state.request, 0),
+      );
+      store.addReducer(model, loadNext, state => {
+        if (isNoValueType(state.request) || state.pages.some(p => p.pending)) {
+          return state;
+        }
+        const lastPage = state.pages[state.pages.length - 1];
+        if (lastPage && isNotNoValueType(lastPage.result) && !isNotEffectError(lastPage.result)) {
+          return requestPage(state, state.request, lastPage.page);
+        }
+        return hasMorePages(state) ? requestPage(state, state.request, state.pages.length) : state;
+      });
+      store.addReducer(model, pageResults, (state, event) => {
+        if (event.resultInput !== state.pageInput) {
+          return state; // result for an outdated page input
+        }
+        return {
+          ...state,
+          pages: state.pages.map(p =>
+            p.page === event.resultInput.page
+              ? { ...p, pending: !event.completed, result: event.result }
+              : p,
+          ),
+          totalCount: isNotEffectError(event.result) ? event.result.totalCount : state.totalCount,
+        };
+      });
+      store.addDerivedState(
+        pageInput,
+        store.getBehavior(model).pipe(
+          map(m => m.pageInput),
+          filter(isNotNoValueType),
+        ),
+      );
+      store.addDerivedState(
+        pagedCombined,
+        merge(
+          store.getBehavior(model).pipe(
+            map(m => ({
+              request: m.request,
+              pages: m.pages,
+              items: m.pages.reduce(
+                (items, p) =>
+                  isNotNoValueType(p.result) && isNotEffectError(p.result)
+                    ? [...items, ...p.result.items]
+                    : items,
+                [] as Item[],
+              ),
+              totalCount: m.totalCount,
+              hasMore: hasMorePages(m),
+              pending: m.pages.some(p => p.pending),
+            })),
+          ),
+          // the page effect is only performed while the effect result is subscribed:
+          store.getBehavior(effectCombined).pipe(ignoreElements()),
+        ),
+      );
+    },
+  };
+};
+
+/**
+ * This type specifies a {@link SignalsFactory} producing signals for paged queries (e.g. for tables or infinite scroll).
+ *
+ * @template Filter - specifies the filter type of the query
+ * @template Sort - specifies the sort type of the query
+ * @template Item - specifies the item type of the query result
+ * @template Error - specifies the error type of the page effect
+ */
+export type PagedQuerySignalsFactory<Filter, Sort, Item, Error> = SignalsFactory<
+  PagedQueryInputSignals<Filter, Sort>,
+  PagedQueryOutputSignals<Filter, Sort, Item, Error>,
+  PagedQueryConfiguration,
+  PagedQueryEffects<Filter, Sort, Item, Error>
+>;
+
+/**
+ * Generic function to create a specific {@link PagedQuerySignalsFactory}.
+ * In contrast to the `CombinedEffectResult` of the {@link EffectSignalsFactory} that handles a single
+ * input/result pair, the combined behavior of the resulting signals accumulates the results of all pages
+ * loaded for the current {@link PageRequest} (each page being one invocation of the page effect):
+ *   - a new request (or the refresh event) resets the pages and loads the first page
+ *   - the loadNext event loads the next page (or retries the last page, if it errored)
+ *
+ * @template Filter - specifies the filter type of the query
+ * @template Sort - specifies the sort type of the query
+ * @template Item - specifies the item type of the query result
+ * @template Error - specifies the error type of the page effect
+ * @returns {PagedQuerySignalsFactory<Filter, Sort, Item, Error>}
+ */
+export const getPagedQuerySignalsFactory = <Filter, Sort, Item, Error>(): PagedQuerySignalsFactory<
+  Filter,
+  Sort,
+  Item,
+  Error
+> =>
+  getEffectSignalsFactory<PageEffectInput<Filter, Sort>, PageResult<Item>, Error>() // loading pages
+    .compose(
+      new SignalsFactory((config: PagedQueryConfiguration) =>
+        getPagedQueryModelSignals<Filter, Sort, Item, Error>(config),
+      ),
+    ) // accumulating pages
+    .connect('pageInput', 'input', false)
+    .connect('results', 'pageResults', false)
+    .connect('combined', 'effectCombined', false)
+    .mapConfig((config: PagedQueryConfiguration) => ({
+      c1: {
+        nameExtension: config.nameExtension,
+      },
+      c2: config,
+    }))
+    .mapInput(
+      (ids): PagedQueryInputSignals<Filter, Sort> => ({
+        request: ids.request,
+        loadNext: ids.loadNext,
+        refresh: ids.refresh,
+      }),
+    )
+    .mapOutput(
+      (ids): PagedQueryOutputSignals<Filter, Sort, Item, Error> => ({
+        combined: ids.pagedCombined,
+        pageResults: ids.results,
+      }),
+    )
+    .mapEffects(
+      (ids): PagedQueryEffects<Filter, Sort, Item, Error> => ({
+        page: ids.id,
+      }),
+    );
@@ -0,0 +1,159 @@
+import { Store } from './store';
+
+/**
+ * A message sent from the devtools to the connected {@link Store}
+ * (the subset of the Redux DevTools extension message protocol that is relevant for rx-signals).
+ */
+export type DevToolsMessage = {
+  /** the message type (only messages of type 'DISPATCH' are handled) */
+  type: string;
+
+  /** the command sent by the devtools */
+  payload?: {
+    /** the command type, e.g. 'JUMP_TO_STATE', 'JUMP_TO_ACTION', 'RESET' or 'COMMIT' */
+    type: string;
+
+    /** for 'JUMP_TO_STATE' and 'JUMP_TO_ACTION', the id of the action to jump to (0 representing the initial state) */
+    actionId?: number;
+  };
+
+  /** the serialized state (not used by rx-signals) */
+  state?: string;
+};
+
+/**
+ * The action type reported to the devtools for each event dispatched in the {@link Store}.
+ */
+export type DevToolsAction = {
+  /** the name of the event (see `store.getIdName`) */
+  type: string;
+
+  /** the event value */
+  payload: unknown;
+};
+
+/**
+ * A `DevToolsTransport` is used by {@link connectReduxDevTools} to communicate with the devtools.
+ * The connection returned by `window.__REDUX_DEVTOOLS_EXTENSION__.connect()` can be used as transport,
+ * but you can also provide your own implementation (e.g. to connect to a remote devtools instance, or
+ * to a fake devtools endpoint in tests).
+ */
+export type DevToolsTransport = {
+  /** send the initial state to the devtools */
+  init: (state: unknown) => void;
+
+  /** send an action together with the resulting state to the devtools */
+  send: (action: DevToolsAction, state: unknown) => void;
+
+  /** subscribe to messages from the devtools, optionally returning a function to unsubscribe */
+  subscribe: (listener: (message: DevToolsMessage) => void) => (() => void) | void;
+};
+
+/**
+ * The handle returned by {@link connectReduxDevTools}.
+ */
+export type DevToolsConnection = {
+  /** disconnect the store from the devtools and stop the corresponding event recording */
+  disconnect: () => void;
+
+  /** returns a promise that resolves once all jumps requested by the devtools so far have been replayed (a failed jump re-inits the devtools, instead of rejecting) */
+  waitForJumps: () => Promise<void>;
+};
+
+/**
+ * This function connects a {@link Store} with the Redux DevTools, using the given {@link DevToolsTransport}.
+ * Under the hood, it uses an {@link EventRecorder} to report all events (using `store.getIdName` as action type)
+ * together with the resulting state snapshots (see `store.getStateSnapshot`).
+ * The following devtools commands are supported:
+ * ```markdown
+ * 1.) JUMP_TO_STATE and JUMP_TO_ACTION: replay the recorded events up to the given action (see `EventRecorder.jumpTo`)
+ * 2.) RESET: jump back to the initial state (the recorded events will be dropped with the next event)
+ * 3.) COMMIT: use the current state as new initial state for the devtools
+ * ```
+ * This is meant for debugging purposes only!
+ *
+ * @param {Store} store - the store to be connected
+ * @param {DevToolsTransport} transport - the transport used to communicate with the devtools
+ * @returns {DevToolsConnection}
+ */
+export const connectReduxDevTools = (
+  store: Store,
+  transport: DevToolsTransport,
+): DevToolsConnection => {
+  const recorder = store.getEventRecorder();
+
+  // the state before the first recorded event
+  const stateBeforeRecords = store.getStateSnapshot();
+
+  // the recorder index corresponding to the devtools initial state (actionId 0)
+  let initialIndex = -1;
+
+  // the number of actions sent to the devtools since the last init
+  let sentActions = 0;
+
+  const init = () => {
+    initialIndex = recorder.getCurrentIndex();
+    sentActions = 0;
+    transport.init(store.getStateSnapshot());
+  };
+
+  // the recorder replays jumps in order, so the latest jump resolves after all previous ones
+  let latestJump: Promise<void> = Promise.resolve();
+
+  // a failed replay leaves the store in an unknown state, so we re-init the devtools with that state:
+  const jumpTo = (index: number, onJumped?: () => void) => {
+    latestJump = recorder.jumpTo(index).then(onJumped, init);
+  };
+
+  init();
+  const recordsSubscription = recorder.getRecordsObservable().subscribe(record => {
+    if (recorder.getCurrentIndex() !== initialIndex + sentActions + 1) {
+      // records after the current index have been dropped by the recorder,
+      // so we must re-init the devtools to keep actionIds in sync with the recorder:
+      initialIndex = recorder.getCurrentIndex() - 1;
+      sentActions = 0;
+      transport.init(
+        initialIndex < 0 ? stateBeforeRecords : recorder.getRecords()[initialIndex].state,
+      );
+    }
+    sentActions += 1;
+    transport.send(
+      {
+        type: record.name,
+        payload: record.event,
+      },
+      record.state,
+    );
+  });
+
+  const unsubscribe = transport.subscribe(message => {
+    if (message.type !== 'DISPATCH' || !message.payload) {
+      return;
+    }
+    switch (message.payload.type) {
+      case 'JUMP_TO_STATE':
+      case 'JUMP_TO_ACTION':
+        jumpTo(initialIndex + (message.payload.actionId ?? 0));
+        break;
+      case 'RESET':
+        jumpTo(-1, init);
+        break;
+      case 'COMMIT':
+        init();
+        break;
+      default:
+        break;
+    }
+  });
+
+  return {
+    disconnect: () => {
+      recordsSubscription.unsubscribe();
+      recorder.stop();
+      if (typeof unsubscribe === 'function') {
+        unsubscribe();
+      }
+    },
+    waitForJumps: () => latestJump,
+  };
+};
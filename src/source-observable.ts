@@ -1,5 +1,6 @@
 import { Observable, Subject, Subscription } from 'rxjs';
 import { ContextHandle } from './context-handle';
+import { withDependencyTracking } from './dependency-tracker';
 import { NO_VALUE, NoValueType } from './store-utils';
 
 /**
@@ -12,6 +13,10 @@ export class SourceObservable<T> {
 
   private initialValueDispatched = false;
 
+  private nextValueListener: (() => void) | null = null;
+
+  private readonly dependencies = new Set<symbol>();
+
   constructor(
     private readonly sourceId: symbol,
     private readonly sourceObservable: Observable<T>,
@@ -23,6 +28,10 @@ export class SourceObservable<T> {
     return this.sourceId;
   }
 
+  getDependencies(): symbol[] {
+    return [...this.dependencies];
+  }
+
   isLazySubscription(): boolean {
     return this.lazySubscription;
   }
@@ -31,6 +40,10 @@ export class SourceObservable<T> {
     this.initialValueDispatched = false;
   }
 
+  onNextValue(listener: () => void): void {
+    this.nextValueListener = listener;
+  }
+
   subscribeIfNecessary(
     contextHandle: ContextHandle,
     targetSubject: Subject<T>,
@@ -62,12 +75,17 @@ export class SourceObservable<T> {
         }
       }
       contextHandle.withContext(() => {
-        this.subscription = this.sourceObservable.subscribe({
-          next: value => {
-            targetSubject.next(value);
-          },
-          error,
-          complete,
+        withDependencyTracking(this.dependencies, () => {
+          this.subscription = this.sourceObservable.subscribe({
+            next: value => {
+              const nextValueListener = this.nextValueListener;
+              this.nextValueListener = null;
+              nextValueListener?.();
+              targetSubject.next(value);
+            },
+            error,
+            complete,
+          });
         });
       });
     } finally {
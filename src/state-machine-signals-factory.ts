@@ -0,0 +1,444 @@
+import { map } from 'rxjs';
+import { Signals, SignalsFactory } from './signals-factory';
+import { Command, getEffectCommand, TypedEvent } from './store';
+import { DerivedId, EffectId, EventId, getDerivedId, getEventId, getStateId } from './store-utils';
+
+/**
+ * The value of a state machine, hence a tree of the active states (analogous to statechart libraries like XState):
+ *   - for a compound state, the name of the active child state (if the child is atomic),
+ *     else an object mapping the name of the active child to its value
+ *   - for a parallel state, an object mapping the names of all child states to their values
+ */
+export type StateMachineValue = string | { [key: string]: StateMachineValue };
+
+/**
+ * The state of a state machine, as given by the state output of a {@link StateMachineSignalsFactory}.
+ */
+export type StateMachineState = {
+  /** the active states as tree (see {@link StateMachineValue}) */
+  value: StateMachineValue;
+
+  /** the paths of all active states (e.g. 'player.playing'), ordered by their position in the configuration */
+  activeStates: string[];
+};
+
+/**
+ * The input for entry- and exit-effects of a state machine (see {@link StateMachineStateConfig}).
+ */
+export type StateMachineEffectInput = {
+  /** the path of the entered or exited state */
+  state: string;
+
+  /** the value of the event that caused the transition (undefined for the reset event) */
+  event: unknown;
+};
+
+/**
+ * Type specifying a transition of a {@link StateMachineStateConfig}.
+ *
+ * @template E - the type of the event triggering the transition
+ */
+export type StateMachineTransitionConfig<E = any> = {
+  /** the event triggering the transition */
+  event: EventId<E>;
+
+  /** the path of the target state, separated by dots (e.g. 'player.playing') */
+  target: string;
+
+  /** optional guard, the transition will only be taken, if the guard returns true */
+  guard?: (event: E, state: StateMachineState) => boolean;
+};
+
+/**
+ * Type specifying a state of a state machine.
+ * A state without child states is atomic, a state with child states is either compound (only one child state
+ * is active at a time) or parallel (all child states are active at the same time).
+ */
+export type StateMachineStateConfig = {
+  /** set this to 'parallel', if all child states should be active at the same time */
+  type?: 'compound' | 'parallel';
+
+  /** for compound states, the name of the initial child state (defaults to the first child state) */
+  initial?: string;
+
+  /** the child states */
+  states?: Record<string, StateMachineStateConfig>;
+
+  /** the transitions of this state (for a given event, the first transition with passing guard will be taken) */
+  on?: StateMachineTransitionConfig[];
+
+  /** optional effect to be invoked on entering this state (by a transition or by reset) */
+  entry?: EffectId<StateMachineEffectInput, any, any>;
+
+  /** optional effect to be invoked on exiting this state (by a transition or by reset) */
+  exit?: EffectId<StateMachineEffectInput, any, any>;
+};
+
+/**
+ * Type specifying the configuration of a {@link StateMachineSignalsFactory}.
+ * The configuration itself represents the root state of the machine.
+ */
+export type StateMachineConfig = StateMachineStateConfig & {
+  /** the top-level states */
+  states: Record<string, StateMachineStateConfig>;
+
+  /** optional string to be used as argument to calls of `getBehaviorId` and `getEventId` */
+  nameExtension?: string;
+};
+
+/**
+ * A transition that is defined for one of the active states of a state machine.
+ */
+export type StateMachineTransition = {
+  /** the event triggering the transition */
+  event: EventId<any>;
+
+  /** the path of the state defining the transition */
+  source: string;
+
+  /** the path of the target state */
+  target: string;
+};
+
+/**
+ * The value-type for the transitioned output event of a {@link StateMachineSignalsFactory}.
+ */
+export type StateMachineTransitionEvent = {
+  /** the event that caused the transitions */
+  event: EventId<any>;
+
+  /** the value of the event that caused the transitions */
+  eventValue: unknown;
+
+  /** the transitions that have been taken (more than one, in case of parallel states) */
+  transitions: StateMachineTransition[];
+
+  /** the state before the transitions */
+  from: StateMachineState;
+
+  /** the state after the transitions */
+  to: StateMachineState;
+};
+
+/**
+ * Type specifying the input signal ids produced by a {@link StateMachineSignalsFactory}.
+ * (the events triggering transitions are the ones given by the {@link StateMachineConfig})
+ */
+export type StateMachineInputSignals = {
+  /** identifier for the event to reset the machine to its initial state */
+  reset: EventId<undefined>;
+};
+
+/**
+ * Type specifying the output signal ids produced by a {@link StateMachineSignalsFactory}.
+ */
+export type StateMachineOutputSignals = {
+  /** identifier for the current state behavior */
+  state: DerivedId<StateMachineState>;
+
+  /** identifier for the behavior of all transitions defined for the active states (guards are not evaluated) */
+  allowedTransitions: DerivedId<StateMachineTransition[]>;
+
+  /** identifier for the event that is dispatched for each event that caused at least one transition */
+  transitioned: EventId<StateMachineTransitionEvent>;
+};
+
+type StateNode = {
+  name: string;
+  path: string;
+  order: number;
+  parent: StateNode | null;
+  config: StateMachineStateConfig;
+  children: StateNode[];
+};
+
+const getStateNodes = (config: StateMachineConfig): StateNode[] => {
+  const nodes: StateNode[] = [];
+  const addNode = (
+    name: string,
+    path: string,
+    parent: StateNode | null,
+    stateConfig: StateMachineStateConfig,
+  ): StateNode => {
+    const node: StateNode = {
+      name,
+      path,
+      order: nodes.length,
+      parent,
+      config: stateConfig,
+      children: [],
+    };
+    nodes.push(node);
+    node.children = Object.entries(stateConfig.states ?? {}).map(([childName, childConfig]) =>
+      addNode(childName, path === '' ? childName : `${path}.${childName}`, node, childConfig),
+    );
+    return node;
+  };
+  addNode('', '', null, config);
+  nodes.forEach(node => {
+    if (
+      node.config.initial !== undefined &&
+      !node.children.some(c => c.name === node.config.initial)
+    ) {
+      throw new Error(
+        `The state machine has no initial state ${node.config.initial} in: ${node.path}`,
+      );
+    }
+    (node.config.on ?? []).forEach(transition => {
+      if (transition.target === '' || !nodes.some(n => n.path === transition.target)) {
+        throw new Error(`The state machine has no state: ${transition.target}`);
+      }
+    });
+  });
+  return nodes;
+};
+
+const isDescendant = (node: StateNode, ancestor: StateNode): boolean =>
+  node.parent !== null && (node.parent === ancestor || isDescendant(node.parent, ancestor));
+
+const byOrder = (a: StateNode, b: StateNode): number => a.order - b.order;
+
+// adds the given node and all its default descendants (if not yet active) to the active nodes:
+const enterStateNode = (node: StateNode, active: Set<StateNode>, entered: StateNode[]): void => {
+  if (!active.has(node)) {
+    active.add(node);
+    entered.push(node);
+  }
+  if (node.config.type === 'parallel') {
+    node.children.forEach(child => enterStateNode(child, active, entered));
+    return;
+  }
+  const activeChild =
+    node.children.find(child => active.has(child)) ??
+    node.children.find(child => child.name === node.config.initial) ??
+    node.children[0];
+  if (activeChild) {
+    enterStateNode(activeChild, active, entered);
+  }
+};
+
+const getStateValue = (node: StateNode, active: Set<StateNode>): StateMachineValue => {
+  const activeChildren = node.children.filter(child => active.has(child));
+  if (node.config.type === 'parallel') {
+    return activeChildren.reduce(
+      (acc, child) => ({ ...acc, [child.name]: getStateValue(child, active) }),
+      {},
+    );
+  }
+  const [child] = activeChildren;
+  if (!child) {
+    return {};
+  }
+  return child.children.length === 0 ? child.name : { [child.name]: getStateValue(child, active) };
+};
+
+const getState = (root: StateNode, active: StateNode[]): StateMachineState => ({
+  value: getStateValue(root, new Set<StateNode>(active)),
+  activeStates: active.map(node => node.path),
+});
+
+const getEffectCommands = (
+  nodes: StateNode[],
+  effect: 'entry' | 'exit',
+  event: unknown,
+): Command[] =>
+  nodes.reduce((commands, node) => {
+    const effectId = node.config[effect];
+    return effectId
+      ? [...commands, getEffectCommand(effectId, { state: node.path, event })]
+      : commands;
+  }, [] as Command[]);
+
+const getStateMachineSignals = (
+  config: StateMachineConfig,
+): Signals<StateMachineInputSignals, StateMachineOutputSignals> => {
+  const nodes = getStateNodes(config);
+  const root = nodes[0];
+  const getNode = (path: string): StateNode => nodes.find(node => node.path === path) as StateNode;
+
+  const activeNodes = getStateId<StateNode[]>(`${config.nameExtension ?? ''}_activeNodes`);
+  const state = getDerivedId<StateMachineState>(`${config.nameExtension ?? ''}_state`);
+  const allowedTransitions = getDerivedId<StateMachineTransition[]>(
+    `${config.nameExtension ?? ''}_allowedTransitions`,
+  );
+  const reset = getEventId<undefined>(`${config.nameExtension ?? ''}_reset`);
+  const transitioned = getEventId<StateMachineTransitionEvent>(
+    `${config.nameExtension ?? ''}_transitioned`,
+  );
+
+  const getInitialNodes = (): StateNode[] => {
+    const active = new Set<StateNode>();
+    enterStateNode(root, active, []);
+    return nodes.filter(node => active.has(node) && node !== root);
+  };
+
+  const getTransitionResult = (
+    current: StateNode[],
+    event: EventId<any>,
+    eventValue: unknown,
+  ): [StateNode[], Command[]] => {
+    const from = getState(root, current);
+    const active = new Set<StateNode>([root, ...current]);
+    const atomicNodes = current.filter(node => !node.children.some(child => active.has(child)));
+    const selected: [StateNode, StateMachineTransitionConfig][] = [];
+    atomicNodes.forEach(atomicNode => {
+      for (let node: StateNode | null = atomicNode; node !== null; node = node.parent) {
+        const sourceNode = node;
+        const transition = (sourceNode.config.on ?? []).find(
+          t => t.event === event && (!t.guard || t.guard(eventValue, from)),
+        );
+        if (transition) {
+          if (!selected.some(([source]) => source === sourceNode)) {
+            selected.push([sourceNode, transition]);
+          }
+          return;
+        }
+      }
+    });
+    const commands: Command[] = [];
+    const transitions: StateMachineTransition[] = [];
+    selected.forEach(([source, transition]) => {
+      if (!active.has(source)) {
+        // exited by a previous transition of a parallel state
+        return;
+      }
+      const target = getNode(transition.target);
+      let domain = source.parent as StateNode;
+      while (domain !== root && !isDescendant(target, domain)) {
+        domain = domain.parent as StateNode;
+      }
+      const exited = nodes.filter(node => active.has(node) && isDescendant(node, domain)).reverse();
+      exited.forEach(node => active.delete(node));
+      const entered: StateNode[] = [];
+      for (let node: StateNode = target; node !== domain; node = node.parent as StateNode) {
+        active.add(node);
+        entered.push(node);
+      }
+      enterStateNode(domain, active, entered);
+      commands.push(
+        ...getEffectCommands(exited, 'exit', eventValue),
+        ...getEffectCommands(entered.sort(byOrder), 'entry', eventValue),
+      );
+      transitions.push({ event, source: source.path, target: target.path });
+    });
+    if (transitions.length === 0) {
+      return [current, []];
+    }
+    const next = nodes.filter(node => active.has(node) && node !== root);
+    const transitionEvent: TypedEvent<StateMachineTransitionEvent> = {
+      type: transitioned,
+      event: {
+        event,
+        eventValue,
+        transitions,
+        from,
+        to: getState(root, next),
+      },
+    };
+    return [next, [...commands, transitionEvent]];
+  };
+
+  const events = nodes.reduce(
+    (acc, node) => [
+      ...acc,
+      ...(node.config.on ?? []).map(t => t.event).filter(event => !acc.includes(event)),
+    ],
+    [] as EventId<any>[],
+  );
+
+  return {
+    input: {
+      reset,
+    },
+    output: {
+      state,
+      allowedTransitions,
+      transitioned,
+    },
+    effects: {},
+    setup: store => {
+      store.addState(activeNodes, getInitialNodes());
+      events.forEach(event =>
+        store.addCommandReducer(activeNodes, event, (current, eventValue) =>
+          getTransitionResult(current, event, eventValue),
+        ),
+      );
+      store.addCommandReducer(activeNodes, reset, current => {
+        const next = getInitialNodes();
+        return [
+          next,
+          [
+            ...getEffectCommands([...current].reverse(), 'exit', undefined),
+            ...getEffectCommands(next, 'entry', undefined),
+          ],
+        ];
+      });
+      store.addDerivedState(
+        state,
+        store.getBehavior(activeNodes).pipe(map(current => getState(root, current))),
+      );
+      store.addDerivedState(
+        allowedTransitions,
+        store.getBehavior(activeNodes).pipe(
+          map(current =>
+            [root, ...current].reduce(
+              (acc, node) => [
+                ...acc,
+                ...(node.config.on ?? []).map(t => ({
+                  event: t.event,
+                  source: node.path,
+                  target: t.target,
+                })),
+              ],
+              [] as StateMachineTransition[],
+            ),
+          ),
+        ),
+      );
+    },
+  };
+};
+
+/**
+ * This type specifies a {@link SignalsFactory} for finite state machines (statecharts).
+ */
+export type StateMachineSignalsFactory = SignalsFactory<
+  StateMachineInputSignals,
+  StateMachineOutputSignals,
+  StateMachineConfig
+>;
+
+/**
+ * This function creates a {@link StateMachineSignalsFactory}.
+ * The machine is configured by a statechart-like {@link StateMachineConfig}, supporting nested (compound)
+ * and parallel states, transitions triggered by events (by `EventId`) with optional guards, as well as
+ * entry- and exit-effects (by `EffectId`):
+ *
+ * ```ts
+ *    const machine = getStateMachineSignalsFactory().build({
+ *      initial: 'idle',
+ *      states: {
+ *        idle: { on: [{ event: start, target: 'running' }] },
+ *        running: {
+ *          entry: startTimer,
+ *          exit: stopTimer,
+ *          on: [{ event: stop, target: 'idle', guard: (_, state) => ... }],
+ *        },
+ *      },
+ *    });
+ * ```
+ *
+ * For a given event, each active atomic state selects the first transition with passing guard, searching
+ * from the atomic state up to its ancestors (hence, more than one transition can be taken in parallel states).
+ * Taking a transition exits all active states below the lowest common ancestor of source and target state
+ * and enters the target state (plus its initial descendants). The corresponding exit- and entry-effects
+ * are invoked after the state update (see `store.addCommandReducer`), but they are not invoked for the
+ * initial state on setup (you can dispatch the reset event, if you need them).
+ * As the factory does not add the effects to the store, this must be done by the user (e.g. `store.addEffect`).
+ *
+ * @returns {StateMachineSignalsFactory}
+ */
+export const getStateMachineSignalsFactory = (): StateMachineSignalsFactory =>
+  new SignalsFactory<StateMachineInputSignals, StateMachineOutputSignals, StateMachineConfig>(
+    getStateMachineSignals,
+  );
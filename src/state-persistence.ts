@@ -0,0 +1,116 @@
+/**
+ * A `StorageAdapter` is used by the {@link Store} to persist state (see {@link StatePersistence}).
+ * The interface matches the Web Storage API, hence `localStorage` and `sessionStorage` can be used as
+ * `StorageAdapter` directly. See also {@link getInMemoryStorageAdapter}, {@link getWebStorageAdapter}
+ * and {@link getFileSystemStorageAdapter}.
+ */
+export type StorageAdapter = {
+  /** get the value stored for the given key, or null, if nothing is stored for the key */
+  getItem: (key: string) => string | null;
+
+  /** store the value for the given key */
+  setItem: (key: string, value: string) => void;
+
+  /** remove the value stored for the given key */
+  removeItem: (key: string) => void;
+};
+
+/**
+ * This type specifies the persistence of a state (see `store.addState`).
+ * If persistence is configured for a state, the store will hydrate the initial state value from the
+ * given `StorageAdapter` (falling back to the given initial value, if nothing is stored) and will write
+ * through every state change to the `StorageAdapter`.
+ * Resetting the state (e.g. `store.resetBehaviors`) will reset to the initial value given to `addState`
+ * and NOT to the hydrated value.
+ *
+ * @template T - the type of the persisted state
+ */
+export type StatePersistence<T> = {
+  /** the storage used to persist the state */
+  adapter: StorageAdapter;
+
+  /** the key used for the state in the storage */
+  key: string;
+
+  /** if defined and `>0`, then it will be used as milliseconds to throttle writes to the storage (the latest value will always be written) */
+  throttleTime?: number;
+
+  /** function to serialize the state (defaults to JSON.stringify) */
+  serialize?: (value: T) => string;
+
+  /** function to deserialize the state (defaults to JSON.parse) */
+  deserialize?: (value: string) => T;
+};
+
+/**
+ * This function returns a {@link StorageAdapter} that keeps all values in memory.
+ * This is e.g. useful for tests.
+ *
+ * @returns {StorageAdapter}
+ */
+export const getInMemoryStorageAdapter = (): StorageAdapter => {
+  const items = new Map<string, string>();
+  return {
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: key => {
+      items.delete(key);
+    },
+  };
+};
+
+/**
+ * This function returns a {@link StorageAdapter} for a Web Storage (`localStorage` or `sessionStorage`),
+ * prefixing all keys with the given prefix.
+ *
+ * @param {StorageAdapter} storage - the Web Storage, e.g. `window.localStorage`
+ * @param {string} keyPrefix - an optional prefix for all keys (defaults to empty string)
+ * @returns {StorageAdapter}
+ */
+export const getWebStorageAdapter = (
+  storage: StorageAdapter,
+  keyPrefix: string = '',
+): StorageAdapter => ({
+  getItem: key => storage.getItem(`${keyPrefix}${key}`),
+  setItem: (key, value) => storage.setItem(`${keyPrefix}${key}`, value),
+  removeItem: key => storage.removeItem(`${keyPrefix}${key}`),
+});
+
+/**
+ * The subset of the Node.js `fs` module used by {@link getFileSystemStorageAdapter}.
+ * (rx-signals does not depend on Node.js, hence you must pass the `fs` module yourself)
+ */
+export type FileSystem = {
+  existsSync: (path: string) => boolean;
+  readFileSync: (path: string, encoding: 'utf8') => string;
+  writeFileSync: (path: string, data: string) => void;
+  unlinkSync: (path: string) => void;
+};
+
+/**
+ * This function returns a {@link StorageAdapter} that stores each value in a separate file
+ * in the given directory (the directory must exist).
+ *
+ * ```ts
+ *    import * as fs from 'fs';
+ *    const adapter = getFileSystemStorageAdapter(fs, '/path/to/directory');
+ * ```
+ *
+ * @param {FileSystem} fs - the Node.js `fs` module
+ * @param {string} directory - the directory for the files
+ * @returns {StorageAdapter}
+ */
+export const getFileSystemStorageAdapter = (fs: FileSystem, directory: string): StorageAdapter => {
+  const getPath = (key: string) => `${directory}/${encodeURIComponent(key)}.json`;
+  return {
+    getItem: key => (fs.existsSync(getPath(key)) ? fs.readFileSync(getPath(key), 'utf8') : null),
+    setItem: (key, value) => fs.writeFileSync(getPath(key), value),
+    removeItem: key => {
+      if (fs.existsSync(getPath(key))) {
+        fs.unlinkSync(getPath(key));
+      }
+    },
+  };
+};
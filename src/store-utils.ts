@@ -228,7 +228,16 @@ export const isBehaviorId = <T>(id: SignalId<T>): id is BehaviorId<T> =>
  * @returns {boolean}
  */
 export const isEventId = <T>(id: SignalId<T>): id is EventId<T> =>
-  id.toString().startsWith('Symbol(E');
+  id.toString().startsWith('Symbol(E_');
+
+/**
+ * Typeguard to check whether a given symbol is an `EffectId`.
+ *
+ * @param {symbol} id - a signal or effect identifier.
+ * @returns {boolean}
+ */
+export const isEffectId = (id: symbol): id is EffectId<unknown, unknown, unknown> =>
+  id.toString().startsWith('Symbol(Effect_');
 
 /**
  * A constant representing the intentional absence of a value.
@@ -1,24 +1,47 @@
 import {
   BehaviorSubject,
+  EMPTY,
   NEVER,
   Observable,
+  Subject,
+  Subscription,
   asyncScheduler,
+  catchError,
+  concat,
+  defaultIfEmpty,
+  defer,
   delay,
   distinctUntilChanged,
   filter,
   firstValueFrom,
+  lastValueFrom,
   map,
   merge,
+  mergeMap,
   of,
   share,
+  skip,
   switchMap,
   take,
+  takeUntil,
+  throttleTime,
+  throwError,
+  timeout,
   withLatestFrom,
 } from 'rxjs';
+import { BatchGate } from './batch-gate';
 import { ControlledSubject } from './controlled-subject';
-import { DelayedEventQueue } from './delayed-event-queue';
-import { EffectResult } from './effect-result';
+import { DelayedEventQueue, EventQueueScheduler } from './delayed-event-queue';
+import {
+  DependencyGraph,
+  DependencyGraphEdge,
+  DependencyGraphNode,
+  DependencyGraphNodeKind,
+} from './dependency-graph';
+import { EffectResult, toEffectError } from './effect-result';
+import { EventLog } from './event-log';
 import { SourceObservable } from './source-observable';
+import { StatePersistence } from './state-persistence';
 import {
   BehaviorId,
   DerivedId,
@@ -33,9 +56,42 @@ import {
   ToSignalIdValueType,
   isBehaviorId,
   isDerivedId,
+  isEffectId,
+  isNotNoValueType,
   isStateId,
 } from './store-utils';
 
+const getDependencyGraphNodeKind = (id: symbol): DependencyGraphNodeKind => {
+  if (isEffectId(id)) {
+    return 'effect';
+  }
+  if (isStateId(id as SignalId<unknown>)) {
+    return 'state';
+  }
+  return isDerivedId(id as SignalId<unknown>) ? 'derived' : 'event';
+};
+
+const getSeededValueGetter = <T>(
+  getSeed: () => T | NoValueType,
+  initialValueOrValueGetter: T | (() => T) | NoValueType,
+): (() => T) => {
+  let seeded = false;
+  return () => {
+    // only the first initial value is seeded, because resetting a behavior must not restore the seed:
+    if (!seeded) {
+      seeded = true;
+      const seed = getSeed();
+      if (isNotNoValueType(seed)) {
+        return seed;
+      }
+    }
+    // a NO_VALUE initial value will be filtered by the behavior, so we can safely cast:
+    return typeof initialValueOrValueGetter === 'function'
+      ? (initialValueOrValueGetter as () => T)()
+      : (initialValueOrValueGetter as T);
+  };
+};
+
 /**
  * The {@link Store} uses the `TypedEvent<T>` to bundle certain events and their
  * corresponding `EventId<T>`. This is used for EventSources that can dispatch events
@@ -49,6 +105,19 @@ export type TypedEvent<T> = Readonly<{
   event: T;
 }>;
 
+/**
+ * An `EventMiddleware` intercepts all events of a {@link Store}, before they are emitted by the corresponding
+ * event stream (see `store.addEventMiddleware`).
+ * It receives the typed event and returns an observable of the event values that will be forwarded instead.
+ * Hence, a middleware can
+ *   - observe events, e.g. `typedEvent => of(typedEvent.event).pipe(tap(log))`
+ *   - transform events, e.g. `typedEvent => of(enrich(typedEvent))`
+ *   - delay events, e.g. `typedEvent => of(typedEvent.event).pipe(delay(100))`
+ *   - drop events, e.g. `typedEvent => isAllowed(typedEvent) ? of(typedEvent.event) : EMPTY`
+ * The forwarded values must be of the same type as the intercepted event.
+ */
+export type EventMiddleware = (typedEvent: TypedEvent<unknown>) => Observable<unknown>;
+
 /**
  * The state reducer type specifies the signature for reducers used by the {@link Store}.
  * StateReducers must be pure functions.
@@ -58,16 +127,236 @@ export type TypedEvent<T> = Readonly<{
  */
 export type StateReducer<T, E> = (state: T, event: E) => T;
 
+/**
+ * An `EffectCommand` can be returned by a {@link CommandReducer} to invoke an effect (see `store.addEffect`)
+ * with the given input. If a `resultEvent` is given, all results of the effect invocation will be dispatched
+ * as this event (unhandled errors of the effect will be dispatched as `EffectError<UnhandledEffectError>`).
+ * See also {@link getEffectCommand}.
+ *
+ * @template Input - specifies the input type for the effect
+ * @template Result - specifies the result type for the effect
+ * @template Error - specifies the error type for the effect
+ */
+export type EffectCommand<Input, Result, Error> = Readonly<{
+  effectId: EffectId<Input, Result, Error>;
+  input: Input;
+  resultEvent?: EventId<SafeEffectResult<Result, Error>>;
+}>;
+
+/**
+ * A `Command` is either a {@link TypedEvent} that will be dispatched, or an {@link EffectCommand}
+ * that will invoke an effect. Commands are returned by a {@link CommandReducer}.
+ */
+export type Command = TypedEvent<any> | EffectCommand<any, any, any>;
+
+/**
+ * The `CommandReducer` is an Elm-style variant of the {@link StateReducer} (see `store.addCommandReducer`).
+ * In addition to the new state, it returns a list of {@link Command}s that will be executed by the store
+ * after the state update. Thus, the decision for an effect can be made (and tested) together with the state
+ * transition. CommandReducers must be pure functions (they only return the commands, but do not execute them).
+ *
+ * @template T - representing the type of the state
+ * @template E - representing the type of the event
+ */
+export type CommandReducer<T, E> = (state: T, event: E) => [T, Command[]];
+
+/**
+ * This function is a typesafe factory for an {@link EffectCommand}.
+ *
+ * @param {EffectId<Input, Result, Error>} effectId - the id of the effect to be invoked
+ * @param {Input} input - the effect input
+ * @param {EventId<SafeEffectResult<Result, Error>>} resultEvent - optional event to receive the effect results
+ * @returns {EffectCommand<Input, Result, Error>}
+ */
+export const getEffectCommand = <Input, Result, Error>(
+  effectId: EffectId<Input, Result, Error>,
+  input: Input,
+  resultEvent?: EventId<SafeEffectResult<Result, Error>>,
+): EffectCommand<Input, Result, Error> => ({ effectId, input, resultEvent });
+
+const isEffectCommand = (command: Command): command is EffectCommand<any, any, any> =>
+  (command as EffectCommand<any, any, any>).effectId !== undefined;
+
+/**
+ * The `SagaContext` is passed to a {@link Saga} and provides the operations to interact with the {@link Store}.
+ * All operations reject with an error, once the saga has been cancelled.
+ */
+export type SagaContext = {
+  /** wait for the next event of the given type (events dispatched before calling take will be missed) */
+  take: <T>(eventId: EventId<T>) => Promise<T>;
+
+  /** get the current value of the given behavior (waiting for the first value, if it has none yet) */
+  select: <T>(behaviorId: BehaviorId<T>) => Promise<T>;
+
+  /** invoke the given effect (see `store.addEffect`) and wait for its first result (unhandled effect errors will reject) */
+  call: <Input, Result, Error>(
+    effectId: EffectId<Input, Result, Error>,
+    input: Input,
+  ) => Promise<EffectResult<Result, Error>>;
+
+  /** dispatch the given event (see `store.dispatch`) */
+  put: <T>(eventId: EventId<T>, event: T) => Promise<boolean>;
+
+  /** returns true, if the saga has been cancelled */
+  isCancelled: () => boolean;
+};
+
+/**
+ * A `Saga` is an async function implementing a long-running workflow (also known as process manager),
+ * using the {@link SagaContext} to take events, select behaviors, call effects and put events
+ * (see `store.runSaga`).
+ */
+export type Saga = (context: SagaContext) => Promise<void>;
+
+/**
+ * The `SagaHandle` is returned by `store.runSaga`.
+ */
+export type SagaHandle = {
+  /** cancel the saga, all pending and subsequent operations of its {@link SagaContext} will reject */
+  cancel: () => void;
+
+  /** resolves once the saga has finished or has been cancelled, rejects if the saga throws any other error */
+  done: Promise<void>;
+};
+
+const sagaCancelledMessage = 'The saga has been cancelled';
+
 /**
  * A LifecycleHandle can be used to control signals and signal-sources that
  * are added to the {@link Store} by `store.getLifecycleHandle`
  */
 export type LifecycleHandle = {
-  /** reset all behaviors corresponding to this lifecycle */
+  /** reset all behaviors corresponding to this lifecycle (including nested lifecycles) */
   reset: () => void;
 
-  /** reset all behaviors corresponding to this lifecycle */
+  /** end this lifecycle, removing all behaviors, event sources, reducers, effects and child stores (including nested lifecycles) */
   end: () => void;
+
+  /** add a teardown hook that will be called when this lifecycle ends */
+  onEnd: (teardown: () => void) => void;
+};
+
+type LifecycleObjects = {
+  behaviors: symbol[];
+  events: symbol[];
+  reducers: [StateId<unknown>, EventId<unknown>][];
+  childStores: Store[];
+  lifecycles: LifecycleHandle[];
+  teardowns: (() => void)[];
+};
+
+/**
+ * The type returned by `store.getStateSnapshot`, mapping the names of behaviors
+ * (see `store.setIdName` and `store.getIdName`) to their current values.
+ */
+export type StateSnapshot = Record<string, unknown>;
+
+/**
+ * A `RecordedEvent` represents an event that was recorded by an {@link EventRecorder},
+ * together with the state resulting from the event.
+ */
+export type RecordedEvent = Readonly<{
+  /** the `EventId` of the recorded event */
+  type: EventId<unknown>;
+
+  /** the recorded event value */
+  event: unknown;
+
+  /** the name of the `EventId` (see `store.getIdName`) */
+  name: string;
+
+  /** the snapshot of the store state, after the event was handled by all subscribers (see `store.getStateSnapshot`) */
+  state: StateSnapshot;
+}>;
+
+/**
+ * An EventRecorder records all events of a {@link Store}, together with the resulting state.
+ * It can be used for time-travel debugging by jumping back and forth between recorded events.
+ * Use `store.getEventRecorder` to get an EventRecorder.
+ */
+export type EventRecorder = {
+  /** get all events recorded so far */
+  getRecords: () => RecordedEvent[];
+
+  /** get the index of the recorded event that represents the current state (-1, if the store is in its initial state) */
+  getCurrentIndex: () => number;
+
+  /**
+   * Resets all behaviors and replays all recorded events up to (and including) the given index.
+   * Use -1 to jump to the state before the first recorded event.
+   * While replaying, all event sources are removed, hence only the recorded events will be
+   * dispatched. The returned promise resolves after all events have been replayed and the
+   * event sources have been re-added. Replayed events will neither be recorded again, nor be
+   * logged by event sourcing (see `store.enableEventSourcing`).
+   * If a new event is recorded while the current index is not the last index, all records
+   * after the current index will be dropped.
+   */
+  jumpTo: (index: number) => Promise<void>;
+
+  /** short form for `jumpTo(getCurrentIndex() - 1)` */
+  stepBack: () => Promise<void>;
+
+  /** short form for `jumpTo(getCurrentIndex() + 1)` */
+  stepForward: () => Promise<void>;
+
+  /** get an observable that emits each newly recorded event */
+  getRecordsObservable: () => Observable<RecordedEvent>;
+
+  /** stop recording (the records will still be available) */
+  stop: () => void;
+};
+
+/**
+ * Type specifying the options for `store.enableEventSourcing`
+ */
+export type EventSourcingOptions = {
+  /** the log the events will be appended to and replayed from (see {@link EventLog}) */
+  log: EventLog;
+
+  /** the events to be logged, keyed by names that must be stable across processes (these names are used in the log) */
+  events: Record<string, EventId<any>>;
+
+  /** function returning the timestamp for new log entries (defaults to Date.now) */
+  getTimestamp?: () => number;
+};
+
+/**
+ * The `EventSourcing` is returned by `store.enableEventSourcing` and can be used to rebuild the state
+ * from the {@link EventLog}.
+ */
+export type EventSourcing = {
+  /** reset all behaviors and replay all logged events through the reducers, the returned promise resolves once all events are replayed */
+  rebuild: () => Promise<void>;
+
+  /** stop appending events to the log */
+  stop: () => void;
+};
+
+/**
+ * Type specifying the options for `store.addState`
+ *
+ * @template T - the type of the state
+ */
+export type StateOptions<T> = {
+  /** if defined, the state will be hydrated from and persisted to a storage (see {@link StatePersistence}) */
+  persistence?: StatePersistence<T>;
+
+  /** an optional key that is stable across processes, used by `store.serialize` and `store.hydrate` */
+  stableKey?: string;
+
+  /** an optional function to compare state values, a value equal to the previous one will not be emitted (defaults to the store-level `equals`, see {@link StoreOptions}) */
+  equals?: (a: T, b: T) => boolean;
+};
+
+/**
+ * Type specifying the options for `store.addDerivedState`
+ */
+export type DerivedStateOptions<T> = {
+  /** an optional key that is stable across processes, used by `store.serialize` and `store.hydrate` */
+  stableKey?: string;
+
+  /** an optional function to compare derived values, a value equal to the previous one will not be emitted (defaults to the store-level `equals`, see {@link StoreOptions}) */
+  equals?: (a: T, b: T) => boolean;
 };
 
 /** universal type used for unhandled errors from effects */
@@ -124,6 +413,74 @@ export type ToEffectType<ID> = ID extends EffectId<infer I, infer O, infer E>
   ? Effect<I, O, E>
   : never;
 
+/**
+ * A `RestartErrorPolicy` restarts a failing source (see {@link SourceErrorPolicy}) after a backoff time.
+ */
+export type RestartErrorPolicy = {
+  type: 'restart';
+
+  /** the maximum number of restarts per source without a value in between, before the source will be dropped (defaults to unlimited) */
+  maxRestarts?: number;
+
+  /** function returning the backoff time in milliseconds for the given restart (1 for the first restart), defaults to exponential backoff starting with 100ms and not exceeding 10s */
+  getBackoffTime?: (restart: number) => number;
+};
+
+/**
+ * The `SourceErrorPolicy` specifies how the {@link Store} handles an error of a behavior or event source:
+ *   - 'propagate': the error will be propagated to all subscribers of the signal (default),
+ *      hence the signal will be dead for all current subscribers
+ *   - 'drop': the failing source will be removed from the signal, the signal itself stays intact
+ *   - {@link RestartErrorPolicy}: the failing source will be removed and added again after a backoff time
+ * See `store.setErrorPolicy` and {@link StoreOptions}.
+ */
+export type SourceErrorPolicy = 'propagate' | 'drop' | RestartErrorPolicy;
+
+/**
+ * A `SignalError` represents an error of a behavior or event source, as reported by `store.getErrorStream`.
+ */
+export type SignalError = Readonly<{
+  /** the id of the signal, whose source errored */
+  signalId: SignalId<unknown>;
+
+  /** the name of the signal (see `store.getIdName`) */
+  name: string;
+
+  /** the id of the source that errored (e.g. the `EventId` in case of a reducer, or the symbol returned by `addEventSource`) */
+  sourceId: symbol;
+
+  /** the error */
+  error: unknown;
+
+  /** the way the error has been handled (a restart policy falls back to 'drop', if the maximum number of restarts is exceeded) */
+  handling: 'propagate' | 'drop' | 'restart';
+}>;
+
+const getExponentialBackoffTime = (restart: number): number =>
+  Math.min(100 * 2 ** (restart - 1), 10000);
+
+/**
+ * Type specifying the options for `store.waitFor`
+ */
+export type WaitForOptions = {
+  /** if defined, the promise returned by `waitFor` rejects, if no matching value was received within the given milliseconds */
+  timeout?: number;
+};
+
+/**
+ * Type specifying the options for creating a {@link Store}
+ */
+export type StoreOptions = {
+  /** the scheduler for delivering queued events, defaults to 'macrotask' (see {@link EventQueueScheduler}) */
+  eventQueueScheduler?: EventQueueScheduler;
+
+  /** the default function to compare behavior values (defaults to reference equality), child stores inherit this default */
+  equals?: (a: unknown, b: unknown) => boolean;
+
+  /** the default policy for source errors (defaults to 'propagate', see {@link SourceErrorPolicy}), child stores inherit this default */
+  errorPolicy?: SourceErrorPolicy;
+};
+
 /**
  * The rx-signals Store provides RxJs-Observables for RP (reactive programming) - BehaviorStreams
  * and EventStreams (behaviors and events are the two different types of signals, where behaviors represent immutable state).
@@ -132,7 +489,21 @@ export type ToEffectType<ID> = ID extends EffectId<infer I, infer O, infer E>
  * @class Store
  */
 export class Store {
-  private delayedEventQueue = new DelayedEventQueue();
+  private delayedEventQueue: DelayedEventQueue;
+
+  private batchGate = new BatchGate();
+
+  private readonly defaultEquals: (a: unknown, b: unknown) => boolean;
+
+  private readonly defaultErrorPolicy: SourceErrorPolicy;
+
+  private readonly errorPolicies = new Map<symbol, SourceErrorPolicy>();
+
+  private readonly sourceErrorPolicies = new Map<symbol, Map<symbol, SourceErrorPolicy>>();
+
+  private readonly sourceRestarts = new Map<symbol, Map<symbol, number>>();
+
+  private readonly errorsSubject = new Subject<SignalError>();
 
   private readonly behaviors = new Map<symbol, ControlledSubject<any>>();
 
@@ -148,9 +519,36 @@ export class Store {
 
   private readonly names = new Map<symbol, string>();
 
+  private readonly stableKeys = new Map<symbol, string>();
+
+  private readonly hydratedValues = new Map<string, unknown>();
+
+  private readonly persistenceSubscriptions = new Map<symbol, Subscription>();
+
+  private readonly commandSubscriptions = new Map<symbol, Map<symbol, Subscription>>();
+
+  private readonly deliveredEventsSubject = new Subject<TypedEvent<unknown>>();
+
+  private replaying = false;
+
+  private readonly childStoreEventsSubject = new Subject<TypedEvent<unknown>>();
+
+  private readonly eventMiddlewares = new Map<symbol, EventMiddleware>();
+
   private parentStore: Store | null = null;
 
-  private currentLifecycleObjects: null | { behaviors: symbol[]; events: symbol[] } = null;
+  private currentLifecycleObjects: LifecycleObjects | null = null;
+
+  /**
+   * Creates a new store.
+   *
+   * @param {StoreOptions} options - optional {@link StoreOptions}
+   */
+  constructor(options: StoreOptions = {}) {
+    this.delayedEventQueue = new DelayedEventQueue(options.eventQueueScheduler);
+    this.defaultEquals = options.equals ?? ((a, b) => a === b);
+    this.defaultErrorPolicy = options.errorPolicy ?? 'propagate';
+  }
 
   /**
    * Get the parent store of this store, or null in case it has no parent store.
@@ -187,9 +585,16 @@ export class Store {
    * @returns {Store}
    */
   createChildStore(): Store {
-    const childStore = new Store();
+    const childStore = new Store({
+      equals: this.defaultEquals,
+      errorPolicy: this.defaultErrorPolicy,
+    });
     childStore.parentStore = this;
     childStore.delayedEventQueue = this.delayedEventQueue;
+    childStore.batchGate = this.batchGate;
+    if (this.currentLifecycleObjects !== null) {
+      this.currentLifecycleObjects.childStores.push(childStore);
+    }
     return childStore;
   }
 
@@ -232,10 +637,13 @@ export class Store {
    * valid use-cases where the given observable might depend on an event.
    * E.g., if you want to transform an event-stream into a lazily-subscribed behavior (However, the
    * more idiomatic way to do this would be to use the connect method instead.).
+   * If the optional `equals` is given, it will be used instead of the store-level default to decide whether
+   * a new derived value differs from the previous one (only differing values will be emitted).
    *
    * @param {DerivedId<T>} identifier - the unique identifier for the derived-state behavior
    * @param {Observable<T>} observable - the source for the behavior
    * @param {T | (() => T) | symbol} initialValueOrValueGetter - the initial value or value getter (for lazy initialization) or symbol `NO_VALUE`, if there is no initial value (default)
+   * @param {DerivedStateOptions<T>} options - optional {@link DerivedStateOptions}
    * @throws if a state for the given identifier has already been added to this `Store`
    * @returns {void}
    */
@@ -246,8 +654,18 @@ export class Store {
       | ToBehaviorIdValueType<ID>
       | (() => ToBehaviorIdValueType<ID>)
       | NoValueType = NO_VALUE,
+    options: DerivedStateOptions<ToBehaviorIdValueType<ID>> = {},
   ): void {
-    this.addBehavior(identifier, observable, true, initialValueOrValueGetter);
+    this.assertSourceExists(identifier, identifier);
+    this.getBehaviorControlledSubject(identifier).setEquals(options.equals ?? this.defaultEquals);
+    this.addBehavior(
+      identifier,
+      observable,
+      true,
+      options.stableKey === undefined
+        ? initialValueOrValueGetter
+        : this.getSeededValueGetter(identifier, initialValueOrValueGetter, options.stableKey),
+    );
   }
 
   /**
@@ -260,24 +678,39 @@ export class Store {
    * can be solved using one of the `addXTypedEventSource` methods (see corresponding documentation) for the
    * corresponding event-source.
    *
+   * If the optional `persistence` is given, the initial value will be hydrated from the configured storage
+   * and all changes of the state will be written to the storage (see {@link StatePersistence}).
+   * If the optional `stableKey` is given, the state will be part of `serialize` and can be hydrated via `hydrate`.
+   * If the optional `equals` is given, it will be used instead of the store-level default to decide whether
+   * a new state value differs from the previous one (only differing values will be emitted).
+   *
    * @param {StateId<T>} identifier - the unique identifier for the root-state behavior
    * @param {T | (() => T)} initialValueOrValueGetter - the initial value or value getter
+   * @param {StateOptions<T>} options - optional {@link StateOptions}
    * @throws if a state for the given identifier has already been added to this `Store`
    * @returns {void}
    */
   addState<ID extends StateId<any>>(
     identifier: ID,
     initialValueOrValueGetter: ToBehaviorIdValueType<ID> | (() => ToBehaviorIdValueType<ID>),
+    options: StateOptions<ToBehaviorIdValueType<ID>> = {},
   ): void {
     this.assertSourceExists(identifier, identifier);
+    const { persistence, stableKey, equals } = options;
+    this.getBehaviorControlledSubject(identifier).setEquals(equals ?? this.defaultEquals);
     this.getBehaviorControlledSubject(identifier).addSource(
       new SourceObservable<ToBehaviorIdValueType<ID>>(
         identifier,
         NEVER,
         false,
-        initialValueOrValueGetter,
+        persistence || stableKey !== undefined
+          ? this.getSeededValueGetter(identifier, initialValueOrValueGetter, stableKey, persistence)
+          : initialValueOrValueGetter,
       ),
     );
+    if (persistence) {
+      this.persistState(identifier, persistence);
+    }
     if (this.currentLifecycleObjects !== null) {
       this.currentLifecycleObjects.behaviors.push(identifier);
     }
@@ -312,6 +745,144 @@ export class Store {
         NO_VALUE,
       ),
     );
+    if (this.currentLifecycleObjects !== null) {
+      this.currentLifecycleObjects.reducers.push([stateIdentifier, eventIdentifier]);
+    }
+  }
+
+  /**
+   * This is the Elm-style variant of `addReducer`, taking a {@link CommandReducer} that returns a tuple of
+   * the new state and a list of {@link Command}s. After the state update, the store executes the commands
+   * in the given order:
+   *   - a {@link TypedEvent} will be dispatched (see `dispatch`)
+   *   - an {@link EffectCommand} will invoke the corresponding effect (see `addEffect`), dispatching all
+   *     results as the given result event (if any)
+   * Like a normal reducer, a command reducer can be removed by `removeReducer` (which also unsubscribes
+   * all running effects of its commands). If dispatching a command event fails (e.g. due to an event middleware),
+   * the error will be reported by `getErrorStream`.
+   *
+   * @param {StateId<T>} stateIdentifier - the unique identifier for the root-state behavior
+   * @param {EventId<T>} eventIdentifier - the unique identifier for the event reducing the state
+   * @param {CommandReducer<T, E>} reducer - pure function that takes the previous state and the event and returns a tuple of the new state and the commands
+   * @returns {void}
+   */
+  addCommandReducer<SID extends StateId<any>, EID extends EventId<any>>(
+    stateIdentifier: SID,
+    eventIdentifier: EID,
+    reducer: CommandReducer<ToBehaviorIdValueType<SID>, ToEventIdValueType<EID>>,
+  ): void {
+    this.unsubscribeCommands(stateIdentifier, eventIdentifier);
+    const commandSubscription = new Subscription();
+    const stateCommandSubscriptions =
+      this.commandSubscriptions.get(stateIdentifier) ?? new Map<symbol, Subscription>();
+    stateCommandSubscriptions.set(eventIdentifier, commandSubscription);
+    this.commandSubscriptions.set(stateIdentifier, stateCommandSubscriptions);
+    const sourceObservable = this.getEventStream(eventIdentifier).pipe(
+      withLatestFrom(this.getBehavior(stateIdentifier)),
+      map(([event, state]) => reducer(state, event)),
+      mergeMap(([state, commands]) =>
+        // the commands must be executed after the new state has been emitted:
+        concat(
+          of(state),
+          defer(() => {
+            commands.forEach(command =>
+              this.executeCommand(command, eventIdentifier, commandSubscription),
+            );
+            return EMPTY;
+          }),
+        ),
+      ),
+    );
+    this.getBehaviorControlledSubject(stateIdentifier).addSource(
+      new SourceObservable<ToBehaviorIdValueType<SID>>(
+        eventIdentifier,
+        sourceObservable,
+        false,
+        NO_VALUE,
+      ),
+    );
+    if (this.currentLifecycleObjects !== null) {
+      this.currentLifecycleObjects.reducers.push([stateIdentifier, eventIdentifier]);
+    }
+  }
+
+  /**
+   * This method runs the given {@link Saga}, hence a long-running workflow implemented as async function
+   * that can take events, select behaviors, call effects and put events via its {@link SagaContext}:
+   *
+   * ```ts
+   *    store.runSaga(async ({ take, select, call, put }) => {
+   *      const order = await take(checkout);
+   *      const user = await select(currentUser);
+   *      const result = await call(submitOrderEffect, { order, user });
+   *      await put(orderSubmitted, result);
+   *    });
+   * ```
+   *
+   * If `runSaga` is called within a lifecycle callback (see `getLifecycleHandle`), the saga will be cancelled
+   * when the lifecycle ends. Cancelling a saga rejects all pending and subsequent operations of its
+   * {@link SagaContext}, hence the saga will not continue beyond its current await.
+   *
+   * @param {Saga} saga - the saga to be run
+   * @returns {SagaHandle} - a {@link SagaHandle} that can be used to cancel the saga or await its end
+   */
+  runSaga(saga: Saga): SagaHandle {
+    let cancelled = false;
+    const cancelSubject = new Subject<void>();
+    const toPromise = <T>(observable: Observable<T>): Promise<T> =>
+      cancelled
+        ? Promise.reject(new Error(sagaCancelledMessage))
+        : firstValueFrom(
+            observable.pipe(takeUntil(cancelSubject), defaultIfEmpty(NO_VALUE as T | NoValueType)),
+          ).then(value => {
+            if (isNotNoValueType(value)) {
+              return value as T;
+            }
+            throw new Error(
+              cancelled ? sagaCancelledMessage : 'The saga operation completed without a value',
+            );
+          });
+    const cancel = () => {
+      if (!cancelled) {
+        cancelled = true;
+        cancelSubject.next();
+        cancelSubject.complete();
+      }
+    };
+    const context: SagaContext = {
+      take: eventId => toPromise(this.getEventStream(eventId)),
+      select: behaviorId => toPromise(this.getBehavior(behaviorId)),
+      call: (effectId, input) =>
+        toPromise(
+          this.getEffect(effectId).pipe(
+            take(1),
+            switchMap(effect =>
+              effect(input, { store: this, previousInput: NO_VALUE, previousResult: NO_VALUE }),
+            ),
+          ),
+        ),
+      put: (eventId, event) =>
+        cancelled
+          ? Promise.reject(new Error(sagaCancelledMessage))
+          : this.dispatch(eventId, event as ToEventIdValueType<typeof eventId>),
+      isCancelled: () => cancelled,
+    };
+    if (this.currentLifecycleObjects !== null) {
+      this.currentLifecycleObjects.teardowns.push(cancel);
+    }
+    // the saga must be started synchronously, so that events dispatched after runSaga can be taken:
+    let started: Promise<void>;
+    try {
+      started = saga(context);
+    } catch (error) {
+      started = Promise.reject(error);
+    }
+    const done = started.catch(error => {
+      if (!cancelled) {
+        throw error;
+      }
+    });
+    return { cancel, done };
   }
 
   /**
@@ -323,6 +894,7 @@ export class Store {
    */
   removeReducer<T, E>(stateIdentifier: StateId<T>, eventIdentifier: EventId<E>): void {
     this.getBehaviorControlledSubject(stateIdentifier).removeSource(eventIdentifier);
+    this.unsubscribeCommands(stateIdentifier, eventIdentifier);
   }
 
   /**
@@ -393,6 +965,7 @@ export class Store {
   removeBehaviorSources<T>(identifier: BehaviorId<T>): void {
     const behavior = this.getBehaviorControlledSubject(identifier);
     behavior.removeAllSources();
+    this.unsubscribePersistence(identifier);
   }
 
   /**
@@ -405,9 +978,11 @@ export class Store {
   completeBehavior<T>(identifier: BehaviorId<T>): void {
     const behavior = this.getBehaviorControlledSubject(identifier);
     behavior.removeAllSources();
+    this.unsubscribePersistence(identifier);
     behavior.complete();
     this.behaviors.delete(identifier);
     this.names.delete(identifier);
+    this.stableKeys.delete(identifier);
     this.behaviorsSubject.next(this.behaviors);
   }
 
@@ -424,9 +999,11 @@ export class Store {
     [...this.behaviors.keys()].forEach(key => {
       const behavior = this.behaviors.get(key);
       behavior?.removeAllSources();
+      this.unsubscribePersistence(key);
       behavior?.complete();
       this.behaviors.delete(key);
       this.names.delete(key);
+      this.stableKeys.delete(key);
     });
     [...this.eventStreams.keys()].forEach(key => {
       const eventStream = this.eventStreams.get(key);
@@ -443,31 +1020,36 @@ export class Store {
    * This method takes a callback that performs `Store` operations.
    * It returns a {@link LifecycleHandle} that can be used to reset or end the lifecycle of signals
    * and signal-sources that are added to the store during the callback execution.
+   * This includes behaviors, event sources, reducers, effects, child stores (see `createChildStore`)
+   * and sagas (see `runSaga`).
+   * Lifecycles can be nested, hence you can call `getLifecycleHandle` within the callback. Ending or
+   * resetting the outer lifecycle will also end or reset the nested one.
    *
-   * @param {function} lifecycleRegistrationCallback - behaviors and event-sources added within this callback will be part of the lifecycle
-   * @throws if this method is called while already inside another `lifecycleRegistrationCallback` for this `Store`
+   * @param {function} lifecycleRegistrationCallback - signals, sources, reducers, effects and child stores added within this callback will be part of the lifecycle
    * @returns {LifecycleHandle}
    */
   getLifecycleHandle(lifecycleRegistrationCallback: (store: Store) => void): LifecycleHandle {
-    if (this.currentLifecycleObjects !== null) {
-      throw new Error(
-        'getLifecycleHandle cannot be called while already within a lifecycleRegistrationCallback',
-      );
-    }
+    const parentLifecycleObjects = this.currentLifecycleObjects;
     this.currentLifecycleObjects = {
       behaviors: [],
       events: [],
+      reducers: [],
+      childStores: [],
+      lifecycles: [],
+      teardowns: [],
     };
     try {
       lifecycleRegistrationCallback(this);
     } catch (error) {
-      this.currentLifecycleObjects = null;
+      this.currentLifecycleObjects = parentLifecycleObjects;
       throw error;
     }
-    let { behaviors, events } = this.currentLifecycleObjects;
-    this.currentLifecycleObjects = null;
-    return {
+    let { behaviors, events, reducers, childStores, lifecycles, teardowns } =
+      this.currentLifecycleObjects;
+    this.currentLifecycleObjects = parentLifecycleObjects;
+    const lifecycleHandle: LifecycleHandle = {
       reset: () => {
+        lifecycles.forEach(lifecycle => lifecycle.reset());
         const resetHandles = behaviors.map(behavior =>
           this.behaviors.get(behavior)?.getResetHandle(),
         );
@@ -476,21 +1058,42 @@ export class Store {
         behaviors = [];
       },
       end: () => {
+        lifecycles.forEach(lifecycle => lifecycle.end());
+        lifecycles = [];
+        reducers.forEach(([stateId, eventId]) => {
+          this.behaviors.get(stateId)?.removeSource(eventId);
+          this.unsubscribeCommands(stateId, eventId);
+        });
+        reducers = [];
         behaviors.forEach(key => {
           const behavior = this.behaviors.get(key);
           behavior?.removeAllSources();
+          this.unsubscribePersistence(key);
           behavior?.complete();
           this.behaviors.delete(key);
           this.names.delete(key);
+          this.stableKeys.delete(key);
         });
         behaviors = [];
         events.forEach(key => {
           this.removeEventSource(key);
         });
         events = [];
+        childStores.forEach(childStore => childStore.completeAllSignals());
+        childStores = [];
         this.behaviorsSubject.next(this.behaviors);
+        const endTeardowns = teardowns;
+        teardowns = [];
+        endTeardowns.forEach(teardown => teardown());
+      },
+      onEnd: teardown => {
+        teardowns.push(teardown);
       },
     };
+    if (parentLifecycleObjects !== null) {
+      parentLifecycleObjects.lifecycles.push(lifecycleHandle);
+    }
+    return lifecycleHandle;
   }
 
   /**
@@ -524,6 +1127,68 @@ export class Store {
     return this.getBehaviorControlledSubject(identifier).getObservable();
   }
 
+  /**
+   * This method returns the current value of the behavior specified by identifier, without subscribing it.
+   * If the behavior is currently not subscribed (or has no value yet), `NO_VALUE` is returned, because
+   * an unsubscribed lazy behavior might not hold its current value (e.g. derived states).
+   * Stateful behaviors (see `addState`) are always subscribed, once a source has been added.
+   * As with `getBehavior`, a child store will return the value of the parent, as long as no corresponding
+   * behavior source was added to the child.
+   * This is meant for imperative integration points (e.g. non-reactive legacy code) and for testing.
+   * In reactive code, you should always use `getBehavior` instead.
+   *
+   * @param {BehaviorId<T>} identifier - the unique identifier for the behavior
+   * @returns {T | NoValueType} - the current value or `NO_VALUE`
+   */
+  peekBehavior<T>(identifier: BehaviorId<T>): T | NoValueType {
+    const controlledSubject = this.behaviors.get(identifier);
+    if (this.parentStore && (controlledSubject?.getNumberOfSources() ?? 0) < 1) {
+      return this.parentStore.peekBehavior(identifier);
+    }
+    return controlledSubject ? controlledSubject.getCurrentValue() : NO_VALUE;
+  }
+
+  /**
+   * This method returns a promise that resolves with the first value of the behavior specified by
+   * identifier that satisfies the given predicate. The behavior will be subscribed until then.
+   * The promise rejects, if the optional timeout is exceeded (see {@link WaitForOptions}), or if the
+   * behavior completes (or errors) before a matching value was received.
+   * As with `dispatch`, awaiting behaviors in program logic should be the exception (e.g. for integration
+   * of non-reactive code), but it is very handy for testing.
+   *
+   * @param {BehaviorId<T>} identifier - the unique identifier for the behavior
+   * @param {function} predicate - function that returns true for the value to wait for
+   * @param {WaitForOptions} options - optional {@link WaitForOptions}
+   * @returns {Promise<T>} - a promise resolving with the first matching value
+   */
+  waitFor<T>(
+    identifier: BehaviorId<T>,
+    predicate: (value: T) => boolean,
+    options: WaitForOptions = {},
+  ): Promise<T> {
+    const name = this.getNameForSymbol(identifier);
+    const matching = this.getBehavior(identifier).pipe(filter(predicate), take(1));
+    return new Promise<T>((resolve, reject) => {
+      (options.timeout === undefined
+        ? matching
+        : matching.pipe(
+            timeout({
+              first: options.timeout,
+              with: () =>
+                throwError(
+                  () => new Error(`waitFor timed out after ${options.timeout}ms: ${name}`),
+                ),
+            }),
+          )
+      ).subscribe({
+        next: resolve,
+        error: reject,
+        complete: () =>
+          reject(new Error(`The behavior completed without a matching value: ${name}`)),
+      });
+    });
+  }
+
   /**
    * This method resets all behaviors, effectively resetting the complete store to the state it
    * had before any event was dispatched.
@@ -543,6 +1208,9 @@ export class Store {
    * and the only way to know an effect has been finished is to receive a corresponding message,
    * either in form of another event, or in form of a corresponding new state)!
    *
+   * The event will pass all event middlewares (see `addEventMiddleware`), before it is emitted.
+   * If a middleware drops the event, the returned promise resolves to false.
+   *
    * @param {EventId<T>} identifier - the unique identifier for the event
    * @param {T} event - the event of the type specified by the identifier (optional in case of void type)
    * @returns {Promise<boolean>} - a promise that resolves to true, if the event was subscribed, else to false
@@ -557,20 +1225,129 @@ export class Store {
     identifier: ID,
     event: ToEventIdValueType<ID>,
   ): Promise<boolean> {
-    const controlledSubject = this.getEventStreamControlledSubject(identifier);
-    if (controlledSubject.isObservableSubscribed()) {
-      const result: Promise<boolean> = firstValueFrom(
-        this.getEventStream(identifier).pipe(
-          filter(val => val === event),
-          take(1),
-          map(() => true),
-          delay(1, asyncScheduler),
-        ),
-      );
-      controlledSubject.next(event);
-      return result;
+    if (!this.getEventStreamControlledSubject(identifier).isObservableSubscribed()) {
+      return Promise.resolve(false);
     }
-    return Promise.resolve(false);
+    return lastValueFrom(
+      this.getInterceptedEvents(identifier, event).pipe(
+        mergeMap(interceptedEvent => this.nextEvent(identifier, interceptedEvent)),
+        defaultIfEmpty(false),
+      ),
+    );
+  }
+
+  /**
+   * This method adds an {@link EventMiddleware} to the store. All events of this store and its
+   * child stores, no matter if dispatched (see `dispatch` and `dispatchBatch`) or sourced
+   * (see `addEventSource` and the `addXTypedEventSource` methods), will pass the middleware before being
+   * emitted by the corresponding event stream.
+   * Middlewares are applied in the order they were added, starting with the middlewares of the root store.
+   * Events already passed to the event queue are not affected by adding or removing a middleware.
+   *
+   * @param {EventMiddleware} middleware - the middleware to be added
+   * @returns {symbol} - a symbol that can be used to remove the middleware (see `removeEventMiddleware`)
+   */
+  addEventMiddleware(middleware: EventMiddleware): symbol {
+    const middlewareId = Symbol('');
+    this.eventMiddlewares.set(middlewareId, middleware);
+    return middlewareId;
+  }
+
+  /**
+   * This method removes an {@link EventMiddleware} that was added by `addEventMiddleware`.
+   *
+   * @param {symbol} middlewareId - the symbol returned by `addEventMiddleware`
+   * @returns {void}
+   */
+  removeEventMiddleware(middlewareId: symbol): void {
+    this.eventMiddlewares.delete(middlewareId);
+  }
+
+  /**
+   * This method synchronously delivers all queued events, including events that are queued while flushing.
+   * It is meant to be used with the 'manual' event queue scheduler (see {@link StoreOptions}), where events
+   * will not be delivered without calling this method. As child stores share the event queue of their parent,
+   * flushing a child store flushes the queue of the whole store hierarchy.
+   * Be aware that the promises returned by `dispatch` still resolve asynchronously.
+   *
+   * @returns {void}
+   */
+  flushEventQueue(): void {
+    this.delayedEventQueue.flush();
+  }
+
+  /**
+   * This method dispatches the given events as one atomic batch.
+   * All events of the batch are processed in the given order (hence all reducers for the events
+   * are applied), but derived behaviors (see `addDerivedState`) will not emit intermediate values while
+   * the batch is processed. Instead, each changed derived behavior emits only once, after the whole
+   * batch has been processed (in dependency order).
+   * Thus, if you dispatch several events that change multiple states, a `combineLatest`-based
+   * derived behavior (e.g. `EffectSignals.combined`) will not emit glitch-states.
+   * Root-state behaviors (see `addState`) are not held back, because reducers must always see the
+   * latest state.
+   * As with `dispatch`, events without subscribers are ignored.
+   * Events delayed by an event middleware (see `addEventMiddleware`) will not be part of the batch.
+   *
+   * @param {TypedEvent<any>[]} events - the events to be dispatched, see {@link TypedEvent}
+   * @returns {Promise<void>} - a promise that resolves after all derived behaviors have emitted the batch result (it rejects without dispatching any event of the batch, if an event middleware throws)
+   */
+  dispatchBatch(events: TypedEvent<any>[]): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      let batchError: { error: unknown } | null = null;
+      const handleError = (error: unknown) => {
+        batchError = batchError ?? { error };
+      };
+      const settle = () => {
+        if (batchError === null) {
+          resolve();
+        } else {
+          reject(batchError.error);
+        }
+      };
+      // all middlewares must pass, before any event of the batch is enqueued:
+      let collecting = true;
+      const batch: (() => void)[] = [];
+      events.forEach(({ type, event }) => {
+        const controlledSubject = this.getEventStreamControlledSubject(type);
+        if (controlledSubject.isObservableSubscribed()) {
+          this.getInterceptedEvents(type, event).subscribe({
+            next: interceptedEvent => {
+              if (collecting) {
+                batch.push(() => controlledSubject.next(interceptedEvent));
+              } else {
+                controlledSubject.next(interceptedEvent);
+              }
+            },
+            error: handleError,
+          });
+        }
+      });
+      collecting = false;
+      if (batchError !== null) {
+        settle();
+        return;
+      }
+      this.delayedEventQueue.getQueueDelayedObservable(of(null)).subscribe({
+        next: () => {
+          this.batchGate.open();
+        },
+        error: handleError,
+      });
+      batch.forEach(next => next());
+      this.delayedEventQueue.getQueueDelayedObservable(of(null)).subscribe({
+        next: () => {
+          // closing the batch must happen synchronously, before subsequent events are processed:
+          this.batchGate.close();
+          settle();
+        },
+        error: error => {
+          this.batchGate.close();
+          handleError(error);
+          settle();
+        },
+      });
+    });
   }
 
   /**
@@ -589,7 +1366,12 @@ export class Store {
   ): symbol {
     const sourceId = Symbol('');
     this.getEventStreamControlledSubject(eventIdentifier).addSource(
-      new SourceObservable<ToEventIdValueType<ID>>(sourceId, observable, true, NO_VALUE),
+      new SourceObservable<ToEventIdValueType<ID>>(
+        sourceId,
+        observable.pipe(mergeMap(event => this.getInterceptedEvents(eventIdentifier, event))),
+        true,
+        NO_VALUE,
+      ),
     );
     if (this.currentLifecycleObjects !== null) {
       this.currentLifecycleObjects.events.push(sourceId);
@@ -948,6 +1730,59 @@ export class Store {
     );
   }
 
+  /**
+   * This method returns an observable of all events delivered by this store, regardless of their type,
+   * in the order of the event queue. Hence, it emits every event that was dispatched or sourced in this
+   * store and received by the subscribers of the corresponding event stream (events without subscribers
+   * are not delivered at all, see `dispatch`).
+   * In contrast to `getEventStream`, events of parent stores are not included, because they are
+   * delivered by the parent. However, if `includeChildStores` is true, the events delivered by
+   * child stores (and their child stores) will be included.
+   * A typical use-case for this stream is logging, analytics or audit trails.
+   *
+   * @param {boolean} includeChildStores - optional flag to include events of child stores (defaults to false)
+   * @returns {Observable<TypedEvent<unknown>>} - the observable of all events
+   */
+  getAllEventsStream(includeChildStores: boolean = false): Observable<TypedEvent<unknown>> {
+    return includeChildStores
+      ? merge(this.deliveredEventsSubject, this.childStoreEventsSubject)
+      : this.deliveredEventsSubject.asObservable();
+  }
+
+  /**
+   * This method sets the {@link SourceErrorPolicy} for the given signal, overriding the
+   * store-level default policy (see {@link StoreOptions}).
+   * Without sourceId, the policy will be used for all sources of the signal (including reducers
+   * in case of a `StateId`). With sourceId, the policy will only be used for the given source of the signal,
+   * e.g. the symbol returned by `addEventSource`, or the `EventId` of a reducer of the given `StateId`.
+   * A policy for a source takes precedence over a policy for its signal.
+   *
+   * @param {SignalId} signalId - the id of the signal
+   * @param {SourceErrorPolicy} policy - the policy to be used for errors of the signal or source
+   * @param {symbol} sourceId - optional id of a source of the signal
+   * @returns {void}
+   */
+  setErrorPolicy(signalId: SignalId<any>, policy: SourceErrorPolicy, sourceId?: symbol): void {
+    if (sourceId === undefined) {
+      this.errorPolicies.set(signalId, policy);
+      return;
+    }
+    const signalSourcePolicies =
+      this.sourceErrorPolicies.get(signalId) ?? new Map<symbol, SourceErrorPolicy>();
+    signalSourcePolicies.set(sourceId, policy);
+    this.sourceErrorPolicies.set(signalId, signalSourcePolicies);
+  }
+
+  /**
+   * This method returns an observable of all errors of behavior and event sources of this store,
+   * as {@link SignalError}, regardless of the applied {@link SourceErrorPolicy}.
+   *
+   * @returns {Observable<SignalError>} - the observable of source errors
+   */
+  getErrorStream(): Observable<SignalError> {
+    return this.errorsSubject.asObservable();
+  }
+
   /**
    * This method adds an `Effect` to the `Store`.
    *
@@ -1064,10 +1899,359 @@ export class Store {
     return this.getNameForSymbol(id);
   }
 
+  /**
+   * This method returns the current values of all behaviors of this store, keyed by the
+   * corresponding names (see `setIdName` and `getIdName`).
+   * Only behaviors that are currently subscribed and have a value will be part of the snapshot
+   * (lazy behaviors without subscription have no current value).
+   * Calling this method will not subscribe anything, so it is a convenience method for debugging
+   * and should not serve any purpose in real program logic.
+   *
+   * @param {boolean} includeParentStores - if true, the snapshot will also contain the behaviors of the parent-store chain (values of a child overwrite values of its parent with the same name). Defaults to false.
+   * @returns {StateSnapshot} - an object mapping behavior names to their current values
+   */
+  getStateSnapshot(includeParentStores: boolean = false): StateSnapshot {
+    const snapshot: StateSnapshot =
+      includeParentStores && this.parentStore ? this.parentStore.getStateSnapshot(true) : {};
+    this.behaviors.forEach((behavior, id) => {
+      // effects are stored as behaviors, but they are not part of the state:
+      if (!isBehaviorId(id as SignalId<unknown>)) {
+        return;
+      }
+      const value = behavior.getCurrentValue();
+      if (isNotNoValueType(value)) {
+        snapshot[this.getNameForSymbol(id)] = value;
+      }
+    });
+    return snapshot;
+  }
+
+  /**
+   * This method serializes the current values of all behaviors that were added with a `stableKey`
+   * (see `addState` and `addDerivedState`) to a JSON document, mapping the stable keys to the values.
+   * As for `getStateSnapshot`, only behaviors that are currently subscribed and have a value will be serialized.
+   * A typical use-case is server-side rendering, where the document can be used to hydrate the store on
+   * the client (see `hydrate`).
+   * The behavior values must be JSON-serializable.
+   *
+   * @returns {string} - the JSON document
+   */
+  serialize(): string {
+    const document: Record<string, unknown> = {};
+    this.stableKeys.forEach((stableKey, id) => {
+      const behavior = this.behaviors.get(id);
+      const value = behavior ? behavior.getCurrentValue() : NO_VALUE;
+      if (isNotNoValueType(value)) {
+        document[stableKey] = value;
+      }
+    });
+    return JSON.stringify(document);
+  }
+
+  /**
+   * This method takes a JSON document produced by `serialize` and uses the contained values as initial
+   * values for all behaviors that will be added with a corresponding `stableKey` (see `addState` and
+   * `addDerivedState`). Hence, it must be called on a fresh store, before the corresponding behaviors are added.
+   * Each hydrated value will be used only once, so resetting a behavior will reset to the initial value given
+   * to `addState` or `addDerivedState`.
+   * A hydrated value takes precedence over a value from a state persistence (see {@link StatePersistence}).
+   *
+   * @param {string} document - a JSON document produced by `serialize`
+   * @returns {void}
+   */
+  hydrate(document: string): void {
+    Object.entries(JSON.parse(document) as Record<string, unknown>).forEach(([key, value]) => {
+      this.hydratedValues.set(key, value);
+    });
+  }
+
+  /**
+   * This method returns an {@link EventRecorder} that records all events flowing through the event
+   * streams of this store, together with the resulting state snapshots (see `getStateSnapshot`).
+   * Only events that are actually subscribed will be recorded (events without subscribers are not
+   * delivered at all).
+   * The recorder is meant for debugging purposes only (e.g. time-travel debugging of reducer chains)!
+   *
+   * @returns {EventRecorder}
+   */
+  getEventRecorder(): EventRecorder {
+    let records: RecordedEvent[] = [];
+    let currentIndex = -1;
+    let pendingReplay: Promise<void> = Promise.resolve();
+    const recordsSubject = new Subject<RecordedEvent>();
+    const subscription: Subscription = this.deliveredEventsSubject.subscribe(({ type, event }) => {
+      if (this.replaying) {
+        return;
+      }
+      const record: RecordedEvent = {
+        type,
+        event,
+        name: this.getNameForSymbol(type),
+        state: this.getStateSnapshot(),
+      };
+      records = [...records.slice(0, currentIndex + 1), record];
+      currentIndex = records.length - 1;
+      recordsSubject.next(record);
+    });
+    const jumpTo = (index: number): Promise<void> => {
+      const replay = pendingReplay.then(async () => {
+        const targetIndex = Math.max(-1, Math.min(index, records.length - 1));
+        await this.replayEvents(records.slice(0, targetIndex + 1));
+        currentIndex = targetIndex;
+      });
+      pendingReplay = replay.catch(() => {});
+      return replay;
+    };
+    return {
+      getRecords: () => records,
+      getCurrentIndex: () => currentIndex,
+      jumpTo,
+      stepBack: () => jumpTo(currentIndex - 1),
+      stepForward: () => jumpTo(currentIndex + 1),
+      getRecordsObservable: () => recordsSubject.asObservable(),
+      stop: () => {
+        subscription.unsubscribe();
+        recordsSubject.complete();
+      },
+    };
+  }
+
+  /**
+   * This method enables the event sourcing mode for the events given by the {@link EventSourcingOptions}.
+   * From now on, each of these events that is delivered by this store will be appended to the {@link EventLog},
+   * with a sequence number (continuing the sequence of the existing log) and a timestamp.
+   * The returned {@link EventSourcing} can be used to rebuild the state from the log, typically on startup,
+   * after all states and reducers have been added:
+   *
+   * ```ts
+   *    const eventSourcing = store.enableEventSourcing({ log, events: { addTodo, removeTodo } });
+   *    await eventSourcing.rebuild();
+   * ```
+   *
+   * Rebuilding resets all behaviors and replays the logged events through the reducers, with all event
+   * sources (hence also effects) being removed while replaying. Replayed events will not be logged again
+   * (this also holds for events replayed by an {@link EventRecorder}, see `store.getEventRecorder`).
+   * For the state to be fully derivable from the log, all events reducing the corresponding states must be logged.
+   *
+   * @param {EventSourcingOptions} options - the {@link EventSourcingOptions}
+   * @returns {EventSourcing}
+   */
+  enableEventSourcing(options: EventSourcingOptions): EventSourcing {
+    const { log, events, getTimestamp = Date.now } = options;
+    const eventNames = new Map<symbol, string>(
+      Object.keys(events).map(name => [events[name], name]),
+    );
+    const entries = log.read();
+    let sequence = entries.length > 0 ? entries[entries.length - 1].sequence : 0;
+    let pendingRebuild: Promise<void> = Promise.resolve();
+    const subscription = this.deliveredEventsSubject.subscribe(({ type, event }) => {
+      const name = eventNames.get(type);
+      if (this.replaying || name === undefined) {
+        return;
+      }
+      sequence += 1;
+      log.append({ sequence, timestamp: getTimestamp(), name, event });
+    });
+    return {
+      rebuild: () => {
+        const rebuild = pendingRebuild.then(async () => {
+          const typedEvents = log.read().map(entry => {
+            if (!Object.prototype.hasOwnProperty.call(events, entry.name)) {
+              throw new Error(`The event log contains an unknown event: ${entry.name}`);
+            }
+            return { type: events[entry.name], event: entry.event };
+          });
+          await this.replayEvents(typedEvents);
+        });
+        pendingRebuild = rebuild.catch(() => {});
+        return rebuild;
+      },
+      stop: () => {
+        subscription.unsubscribe();
+      },
+    };
+  }
+
+  /**
+   * This method returns the {@link DependencyGraph} of this store, hence which behaviors, events and effects
+   * feed into each state (via reducers), derived state and event source.
+   * The dependencies of a source are recorded when the source is subscribed. Hence, as long as a lazy source
+   * (derived state or event source) has never been subscribed, its dependencies will not be part of the graph.
+   * Also, only dependencies that are subscribed synchronously during the source subscription can be recorded
+   * (e.g. behaviors subscribed within a switchMap will be missing).
+   * The graph can be exported via `toMermaid` and `toDot`, using the names linked by `setIdName`.
+   * This is meant for debugging and documentation purposes only!
+   *
+   * @returns {DependencyGraph}
+   */
+  getDependencyGraph(): DependencyGraph {
+    const nodes = new Map<symbol, DependencyGraphNode>();
+    const edges: DependencyGraphEdge[] = [];
+    const addNode = (id: symbol) => {
+      if (!nodes.has(id)) {
+        nodes.set(id, {
+          id: id as SignalId<unknown>,
+          name: this.getNameForSymbol(id),
+          kind: getDependencyGraphNodeKind(id),
+        });
+      }
+    };
+    const addEdges = (id: symbol, controlledSubject: ControlledSubject<unknown>) => {
+      addNode(id);
+      controlledSubject.getSources().forEach(source => {
+        // reducers are the only sources of a state that are not identified by the state id itself:
+        const reducer = isStateId(id as SignalId<unknown>) && source.getId() !== id;
+        source
+          .getDependencies()
+          .filter(dependency => dependency !== id)
+          .forEach(dependency => {
+            addNode(dependency);
+            if (!edges.some(e => e.from === dependency && e.to === id && e.reducer === reducer)) {
+              edges.push({
+                from: dependency as SignalId<unknown>,
+                to: id as SignalId<unknown>,
+                reducer,
+              });
+            }
+          });
+      });
+    };
+    this.behaviors.forEach((behavior, id) => addEdges(id, behavior));
+    this.eventStreams.forEach((eventStream, id) => addEdges(id, eventStream));
+    return {
+      nodes: [...nodes.values()],
+      edges,
+    };
+  }
+
+  private async replayEvents(events: TypedEvent<unknown>[]): Promise<void> {
+    const eventResetHandles = [...this.eventStreams.values()].map(eventStream =>
+      eventStream.getResetHandle(),
+    );
+    eventResetHandles.forEach(handle => handle.removeSources());
+    this.replaying = true;
+    try {
+      this.resetBehaviors();
+      events.forEach(({ type, event }) => {
+        this.getEventStreamControlledSubject(type).next(event);
+      });
+      // The event queue is FIFO, so once this resolves, all replayed events have been delivered:
+      await firstValueFrom(this.delayedEventQueue.getQueueDelayedObservable(of(null)));
+    } finally {
+      this.replaying = false;
+      eventResetHandles.forEach(handle => handle.readdSources());
+    }
+  }
+
+  private handleSourceError<T>(
+    signalId: SignalId<T>,
+    controlledSubject: ControlledSubject<T>,
+    sourceId: symbol,
+    error: unknown,
+  ): void {
+    const policy =
+      this.sourceErrorPolicies.get(signalId)?.get(sourceId) ??
+      this.errorPolicies.get(signalId) ??
+      this.defaultErrorPolicy;
+    const signalRestarts = this.sourceRestarts.get(signalId) ?? new Map<symbol, number>();
+    this.sourceRestarts.set(signalId, signalRestarts);
+    const restarts = signalRestarts.get(sourceId) ?? 0;
+    const handling =
+      typeof policy === 'string'
+        ? policy
+        : restarts < (policy.maxRestarts ?? Number.POSITIVE_INFINITY)
+        ? 'restart'
+        : 'drop';
+    this.errorsSubject.next({
+      signalId,
+      name: this.getNameForSymbol(signalId),
+      sourceId,
+      error,
+      handling,
+    });
+    if (handling === 'propagate') {
+      controlledSubject.error(error);
+      return;
+    }
+    const source = controlledSubject.getSources().find(s => s.getId() === sourceId);
+    controlledSubject.removeSource(sourceId);
+    if (handling === 'restart' && source && typeof policy !== 'string') {
+      signalRestarts.set(sourceId, restarts + 1);
+      // once the restarted source delivers a value, the next error starts a new series of restarts:
+      source.onNextValue(() => signalRestarts.delete(sourceId));
+      asyncScheduler.schedule(() => {
+        const currentSubject = this.behaviors.get(signalId) ?? this.eventStreams.get(signalId);
+        if (currentSubject !== controlledSubject || controlledSubject.hasSource(sourceId)) {
+          // the signal has been completed or the source has been re-added in the meantime
+          return;
+        }
+        // in case the error was thrown synchronously on subscribe, the source might still hold a closed subscription:
+        source.unsubscribe();
+        controlledSubject.addSource(source);
+      }, (policy.getBackoffTime ?? getExponentialBackoffTime)(restarts + 1));
+    }
+  }
+
   private getNameForSymbol(id: symbol): string {
     return this.names.get(id) ?? id.toString();
   }
 
+  private getSeededValueGetter<T>(
+    identifier: BehaviorId<T>,
+    initialValueOrValueGetter: T | (() => T) | NoValueType,
+    stableKey?: string,
+    persistence?: StatePersistence<T>,
+  ): () => T {
+    if (stableKey !== undefined) {
+      this.stableKeys.forEach((key, id) => {
+        if (key === stableKey && id !== identifier) {
+          throw new Error(`The stable key is already used for another behavior: ${stableKey}`);
+        }
+      });
+      this.stableKeys.set(identifier, stableKey);
+    }
+    return getSeededValueGetter(() => {
+      if (stableKey !== undefined && this.hydratedValues.has(stableKey)) {
+        const hydratedValue = this.hydratedValues.get(stableKey) as T;
+        this.hydratedValues.delete(stableKey);
+        return hydratedValue;
+      }
+      const storedValue = persistence ? persistence.adapter.getItem(persistence.key) : null;
+      if (persistence && storedValue !== null) {
+        return persistence.deserialize
+          ? persistence.deserialize(storedValue)
+          : (JSON.parse(storedValue) as T);
+      }
+      return NO_VALUE;
+    }, initialValueOrValueGetter);
+  }
+
+  private persistState<T>(identifier: StateId<T>, persistence: StatePersistence<T>): void {
+    this.unsubscribePersistence(identifier);
+    const changes = this.getBehaviorControlledSubject(identifier).getObservable().pipe(skip(1));
+    const subscription = (
+      persistence.throttleTime === undefined || persistence.throttleTime < 1
+        ? changes
+        : changes.pipe(
+            throttleTime(persistence.throttleTime, asyncScheduler, {
+              leading: true,
+              trailing: true,
+            }),
+          )
+    ).subscribe(value => {
+      persistence.adapter.setItem(
+        persistence.key,
+        persistence.serialize ? persistence.serialize(value) : JSON.stringify(value),
+      );
+    });
+    this.persistenceSubscriptions.set(identifier, subscription);
+  }
+
+  private unsubscribePersistence(identifier: symbol): void {
+    this.persistenceSubscriptions.get(identifier)?.unsubscribe();
+    this.persistenceSubscriptions.delete(identifier);
+  }
+
   private getDependentObservable<T>(
     observable: Observable<T>,
     subscribeObservableOnlyIfEventIsSubscribed: EventId<any> | null,
@@ -1080,6 +2264,89 @@ export class Store {
       .pipe(switchMap(isSubscribed => (isSubscribed ? observable : NEVER)));
   }
 
+  private executeCommand(
+    command: Command,
+    sourceId: symbol,
+    commandSubscription: Subscription,
+  ): void {
+    const dispatchCommandEvent = <T>(type: EventId<T>, event: T) => {
+      this.dispatch(type, event).catch(error => {
+        this.errorsSubject.next({
+          signalId: type,
+          name: this.getNameForSymbol(type),
+          sourceId,
+          error,
+          handling: 'drop',
+        });
+      });
+    };
+    if (!isEffectCommand(command)) {
+      dispatchCommandEvent(command.type, command.event);
+      return;
+    }
+    const { effectId, input, resultEvent } = command;
+    const effectSubscription = this.getEffect(effectId)
+      .pipe(
+        take(1),
+        switchMap(effect =>
+          effect(input, { store: this, previousInput: NO_VALUE, previousResult: NO_VALUE }),
+        ),
+        catchError(error => of(toEffectError<UnhandledEffectError>({ unhandledError: error }))),
+      )
+      .subscribe(result => {
+        if (resultEvent) {
+          dispatchCommandEvent(resultEvent, result);
+        }
+      });
+    if (!effectSubscription.closed) {
+      commandSubscription.add(effectSubscription);
+      effectSubscription.add(() => commandSubscription.remove(effectSubscription));
+    }
+  }
+
+  private unsubscribeCommands(stateIdentifier: symbol, eventIdentifier: symbol): void {
+    const stateCommandSubscriptions = this.commandSubscriptions.get(stateIdentifier);
+    stateCommandSubscriptions?.get(eventIdentifier)?.unsubscribe();
+    stateCommandSubscriptions?.delete(eventIdentifier);
+    if (stateCommandSubscriptions?.size === 0) {
+      this.commandSubscriptions.delete(stateIdentifier);
+    }
+  }
+
+  private nextEvent<T>(identifier: EventId<T>, event: T): Promise<boolean> {
+    const controlledSubject = this.getEventStreamControlledSubject(identifier);
+    if (controlledSubject.isObservableSubscribed()) {
+      const result: Promise<boolean> = firstValueFrom(
+        this.getEventStream(identifier).pipe(
+          filter(val => val === event),
+          take(1),
+          map(() => true),
+          delay(1, asyncScheduler),
+        ),
+      );
+      controlledSubject.next(event);
+      return result;
+    }
+    return Promise.resolve(false);
+  }
+
+  private getEventMiddlewares(): EventMiddleware[] {
+    return [...(this.parentStore?.getEventMiddlewares() ?? []), ...this.eventMiddlewares.values()];
+  }
+
+  private getInterceptedEvents<T>(identifier: EventId<T>, event: T): Observable<T> {
+    return this.getEventMiddlewares().reduce(
+      (events, middleware) =>
+        events.pipe(
+          mergeMap(
+            interceptedEvent =>
+              middleware({ type: identifier, event: interceptedEvent }) as Observable<T>,
+          ),
+        ),
+      of(event),
+    );
+  }
+
   private addTypedEventSource<T>(
     sourceIdentifier: symbol,
     eventIdentifier: EventId<T>,
@@ -1087,7 +2354,7 @@ export class Store {
   ): void {
     const source = sharedSource.pipe(
       filter(typedEvent => typedEvent.type === eventIdentifier),
-      map(event => event.event),
+      mergeMap(typedEvent => this.getInterceptedEvents(eventIdentifier, typedEvent.event)),
     );
     this.getEventStreamControlledSubject(eventIdentifier).addSource(
       new SourceObservable<T>(sourceIdentifier, source, true, NO_VALUE),
@@ -1098,9 +2365,8 @@ export class Store {
     const controlledSubject = new ControlledSubject<T>(
       identifier,
       true,
-      (_, error) => {
-        // If the source errors, error for the target.
-        controlledSubject.error(error);
+      (sourceId, error) => {
+        this.handleSourceError(identifier, controlledSubject, sourceId, error);
       },
       id => {
         // If a source completes, we remove it from the behavior.
@@ -1109,7 +2375,10 @@ export class Store {
         controlledSubject.removeSource(id);
       },
       this.delayedEventQueue,
+      () => {},
+      isDerivedId(identifier) ? this.batchGate : null,
     );
+    controlledSubject.setEquals(this.defaultEquals);
     this.behaviors.set(identifier, controlledSubject);
     this.behaviorsSubject.next(this.behaviors);
     return controlledSubject;
@@ -1123,9 +2392,8 @@ export class Store {
     const controlledSubject = new ControlledSubject<T>(
       identifier,
       false,
-      (_, error) => {
-        // If a source errors, error for the target.
-        controlledSubject.error(error);
+      (sourceId, error) => {
+        this.handleSourceError(identifier, controlledSubject, sourceId, error);
       },
       id => {
         // If the source completes, we can remove it.
@@ -1134,6 +2402,15 @@ export class Store {
         controlledSubject.removeSource(id);
       },
       this.delayedEventQueue,
+      event => {
+        const typedEvent = { type: identifier, event };
+        this.deliveredEventsSubject.next(typedEvent);
+        let ancestor = this.parentStore;
+        while (ancestor) {
+          ancestor.childStoreEventsSubject.next(typedEvent);
+          ancestor = ancestor.parentStore;
+        }
+      },
     );
     this.eventStreams.set(identifier, controlledSubject);
     this.eventStreamsSubject.next(this.eventStreams);
@@ -1,5 +1,7 @@
 import { combineLatest, firstValueFrom, Observable, of } from 'rxjs';
 import { catchError, delay, filter, map, scan, startWith, take, timeout } from 'rxjs/operators';
+import { Store } from '../store';
+import { BehaviorId } from '../store-utils';
 
 /**
  * This function is a testing utility.
@@ -56,6 +58,27 @@ export const expectSequence = async <T>(
   });
 };
 
+/**
+ * This function is a testing utility.
+ * It returns a Promise that resolves with the first value of the given behavior that satisfies the predicate
+ * (see `store.waitFor`).
+ * In contrast to `store.waitFor`, it always uses a timeout, hence the Promise rejects, if no matching value
+ * is observed within the configurable timeout (or if the behavior completes before).
+ *
+ * @template T - type for the behavior values
+ * @param {Store} store - the store.
+ * @param {BehaviorId} identifier - the unique identifier for the behavior.
+ * @param {function} predicate - function that returns true for the value to wait for.
+ * @param {number} timeoutAfter - the timeout for waiting on the matching value. Defaults to 3000ms
+ * @returns {Promise}
+ */
+export const waitFor = async <T>(
+  store: Store,
+  identifier: BehaviorId<T>,
+  predicate: (value: T) => boolean,
+  timeoutAfter: number = 3000,
+): Promise<T> => store.waitFor(identifier, predicate, { timeout: timeoutAfter });
+
 /**
  * @internal
  */
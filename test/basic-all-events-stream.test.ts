@@ -0,0 +1,62 @@
+import { of } from 'rxjs';
+import { Store, TypedEvent } from '../src/store';
+import { getEventId, getStateId } from '../src/store-utils';
+
+describe('All events stream', () => {
+  const counter = getStateId<number>();
+  const add = getEventId<number>();
+  const reset = getEventId<undefined>();
+  const sourced = getEventId<string>();
+
+  let store: Store;
+  let child: Store;
+  let events: TypedEvent<unknown>[];
+
+  beforeEach(() => {
+    store = new Store();
+    store.addState(counter, 0);
+    store.addReducer(counter, add, (state, event) => state + event);
+    store.addReducer(counter, reset, () => 0);
+    child = store.createChildStore();
+    child.addState(counter, 0);
+    child.addReducer(counter, add, (state, event) => state + event);
+    events = [];
+  });
+
+  it('should emit all delivered events in queue order', async () => {
+    store.getAllEventsStream().subscribe(event => events.push(event));
+    store.dispatch(add, 1);
+    store.dispatch(reset);
+    await store.dispatch(add, 2);
+    expect(events).toEqual([
+      { type: add, event: 1 },
+      { type: reset, event: undefined },
+      { type: add, event: 2 },
+    ]);
+  });
+
+  it('should include sourced events', async () => {
+    store.addEventSource(sourced, of('a', 'b'));
+    store.getAllEventsStream().subscribe(event => events.push(event));
+    store.getEventStream(sourced).subscribe();
+    await store.dispatch(add, 1);
+    expect(events).toEqual([
+      { type: sourced, event: 'a' },
+      { type: sourced, event: 'b' },
+      { type: add, event: 1 },
+    ]);
+  });
+
+  it('should include child store events only if requested', async () => {
+    const allEvents: TypedEvent<unknown>[] = [];
+    store.getAllEventsStream().subscribe(event => events.push(event));
+    store.getAllEventsStream(true).subscribe(event => allEvents.push(event));
+    store.dispatch(add, 1);
+    await child.dispatch(add, 2);
+    expect(events).toEqual([{ type: add, event: 1 }]);
+    expect(allEvents).toEqual([
+      { type: add, event: 1 },
+      { type: add, event: 2 },
+    ]);
+  });
+});
@@ -0,0 +1,78 @@
+import { Subject, map } from 'rxjs';
+import { shallowEquals } from '../src/entity-edit-signals-factory';
+import { Store } from '../src/store';
+import { expectSequence } from '../src/test-utils/test-utils';
+import { getDerivedId, getEventId, getStateId } from '../src/store-utils';
+
+describe('Behavior equality', () => {
+  type Point = { x: number; y: number };
+
+  const point = getStateId<Point>();
+  const xOnly = getDerivedId<{ x: number }>();
+  const setPoint = getEventId<Point>();
+
+  let store: Store;
+  let points: Point[];
+  let xs: { x: number }[];
+
+  const setup = (s: Store, equals?: (a: Point, b: Point) => boolean) => {
+    s.addState(point, { x: 0, y: 0 }, { equals });
+    s.addReducer(point, setPoint, (_, event) => event);
+    s.addDerivedState(xOnly, s.getBehavior(point).pipe(map(p => ({ x: p.x }))), undefined, {
+      equals: shallowEquals,
+    });
+    points = [];
+    xs = [];
+    s.getBehavior(point).subscribe(value => points.push(value));
+    s.getBehavior(xOnly).subscribe(value => xs.push(value));
+  };
+
+  it('should use reference equality by default', async () => {
+    store = new Store();
+    setup(store);
+    await store.dispatch(setPoint, { x: 0, y: 0 });
+    expect(points).toEqual([
+      { x: 0, y: 0 },
+      { x: 0, y: 0 },
+    ]);
+  });
+
+  it('should use the equals option of a state', async () => {
+    store = new Store();
+    setup(store, shallowEquals);
+    await store.dispatch(setPoint, { x: 0, y: 0 });
+    await store.dispatch(setPoint, { x: 1, y: 0 });
+    expect(points).toEqual([
+      { x: 0, y: 0 },
+      { x: 1, y: 0 },
+    ]);
+  });
+
+  it('should use the equals option of a derived state', async () => {
+    store = new Store();
+    setup(store);
+    await store.dispatch(setPoint, { x: 0, y: 1 });
+    await store.dispatch(setPoint, { x: 2, y: 1 });
+    expect(xs).toEqual([{ x: 0 }, { x: 2 }]);
+  });
+
+  it('should use the store-level default and pass it to child stores', async () => {
+    store = new Store({ equals: shallowEquals });
+    const child = store.createChildStore();
+    setup(child);
+    await child.dispatch(setPoint, { x: 0, y: 0 });
+    expect(points).toEqual([{ x: 0, y: 0 }]);
+  });
+
+  it('should use the default again, if a behavior is re-added without equals option', async () => {
+    store = new Store();
+    const numbers = getDerivedId<number>();
+    const subject = new Subject<number>();
+    store.addDerivedState(numbers, subject, 0, { equals: () => true });
+    store.removeBehaviorSources(numbers);
+    store.addDerivedState(numbers, subject, 0);
+    const sequence = expectSequence(store.getBehavior(numbers), [0, 1]);
+    subject.next(1);
+    await sequence;
+  });
+});
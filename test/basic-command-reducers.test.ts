@@ -0,0 +1,121 @@
+import { Observable, firstValueFrom, of, throwError } from 'rxjs';
+import { EffectError } from '../src/effect-result';
+import {
+  SafeEffectResult,
+  SignalError,
+  Store,
+  UnhandledEffectError,
+  getEffectCommand,
+} from '../src/store';
+import { getEffectId, getEventId, getStateId } from '../src/store-utils';
+import { expectSequence } from '../src/test-utils/test-utils';
+
+describe('Command reducers', () => {
+  type Query = { term: string; loading: boolean; result: string | null };
+
+  const query = getStateId<Query>();
+  const search = getEventId<string>();
+  const searchResult = getEventId<SafeEffectResult<string, never>>();
+  const searched = getEventId<string>();
+  const searchEffect = getEffectId<string, string>();
+
+  let store: Store;
+
+  beforeEach(() => {
+    store = new Store();
+    store.addState(query, { term: '', loading: false, result: null });
+    store.addCommandReducer(query, search, (state, term) => [
+      { ...state, term, loading: true },
+      [{ type: searched, event: term }, getEffectCommand(searchEffect, term, searchResult)],
+    ]);
+    store.addReducer(query, searchResult, (state, result) => ({
+      ...state,
+      loading: false,
+      result: typeof result === 'string' ? result : 'error',
+    }));
+  });
+
+  it('should update the state and execute the commands afterwards', async () => {
+    const states: Query[] = [];
+    store.addEffect(searchEffect, term => {
+      states.push(store.peekBehavior(query) as Query);
+      return of(`result for ${term}`);
+    });
+    const searchedSequence = expectSequence(store.getEventStream(searched), ['rx']);
+    await store.dispatch(search, 'rx');
+    await searchedSequence;
+    expect(states).toEqual([{ term: 'rx', loading: true, result: null }]);
+    await expectSequence(store.getBehavior(query), [
+      { term: 'rx', loading: false, result: 'result for rx' },
+    ]);
+  });
+
+  it('should dispatch unhandled effect errors as result', async () => {
+    const results: SafeEffectResult<string, never>[] = [];
+    store.getEventStream(searchResult).subscribe(result => results.push(result));
+    store.addEffect(searchEffect, () => throwError(() => 'failed'));
+    await store.dispatch(search, 'rx');
+    const state = await store.waitFor(query, q => q.result !== null, { timeout: 1000 });
+    expect(state.result).toBe('error');
+    expect((results[0] as EffectError<UnhandledEffectError>).error.unhandledError).toBe('failed');
+  });
+
+  it('should be removable like a normal reducer', async () => {
+    store.removeReducer(query, search);
+    expect(await store.dispatch(search, 'rx')).toBe(false);
+  });
+
+  const addPendingEffect = (s: Store): Promise<() => boolean> =>
+    new Promise(resolve => {
+      s.addEffect(
+        searchEffect,
+        () =>
+          new Observable<string>(() => {
+            let unsubscribed = false;
+            resolve(() => unsubscribed);
+            return () => {
+              unsubscribed = true;
+            };
+          }),
+      );
+    });
+
+  it('should unsubscribe running effects, if the reducer is removed', async () => {
+    const effectStarted = addPendingEffect(store);
+    await store.dispatch(search, 'rx');
+    const isUnsubscribed = await effectStarted;
+    expect(isUnsubscribed()).toBe(false);
+    store.removeReducer(query, search);
+    expect(isUnsubscribed()).toBe(true);
+  });
+
+  it('should unsubscribe running effects, if the lifecycle ends', async () => {
+    const effectStarted = addPendingEffect(store);
+    const handle = store.getLifecycleHandle(s => {
+      s.addCommandReducer(query, searched, state => [
+        state,
+        [getEffectCommand(searchEffect, 'rx', searchResult)],
+      ]);
+    });
+    await store.dispatch(searched, 'rx');
+    const isUnsubscribed = await effectStarted;
+    handle.end();
+    expect(isUnsubscribed()).toBe(true);
+  });
+
+  it('should report failing command events to the error stream', async () => {
+    store.addEffect(searchEffect, term => of(term));
+    store.getEventStream(searched).subscribe();
+    store.addEventMiddleware(typedEvent => {
+      if (typedEvent.type === searched) {
+        throw new Error('middleware failed');
+      }
+      return of(typedEvent.event);
+    });
+    const error: Promise<SignalError> = firstValueFrom(store.getErrorStream());
+    await store.dispatch(search, 'rx');
+    expect(await error).toEqual(
+      expect.objectContaining({ signalId: searched, sourceId: search, handling: 'drop' }),
+    );
+  });
+});
@@ -0,0 +1,173 @@
+import { defer, map, of, throwError } from 'rxjs';
+import { SignalError, Store } from '../src/store';
+import { getDerivedId, getEventId, getStateId } from '../src/store-utils';
+import { expectSequence } from '../src/test-utils/test-utils';
+
+describe('Error policies', () => {
+  const counter = getStateId<number>();
+  const inverse = getDerivedId<number>();
+  const add = getEventId<number>();
+  const sourced = getEventId<number>();
+  const sum = getStateId<number>();
+
+  let store: Store;
+  let errors: SignalError[];
+
+  const setup = (s: Store) => {
+    s.addState(counter, 1);
+    s.addReducer(counter, add, (state, event) => {
+      if (event < -1) {
+        throw new Error('negative');
+      }
+      return state + event;
+    });
+    s.addDerivedState(
+      inverse,
+      s.getBehavior(counter).pipe(
+        map(value => {
+          if (value === 0) {
+            throw new Error('division by zero');
+          }
+          return 1 / value;
+        }),
+      ),
+    );
+    s.setIdName(counter, 'counter');
+    s.setIdName(inverse, 'inverse');
+    errors = [];
+    s.getErrorStream().subscribe(error => errors.push(error));
+  };
+
+  it('should propagate errors by default and report them', async () => {
+    store = new Store();
+    setup(store);
+    let receivedError: unknown = null;
+    store.getBehavior(inverse).subscribe({ error: error => (receivedError = error) });
+    await store.dispatch(add, -1);
+    expect(receivedError).toEqual(new Error('division by zero'));
+    expect(errors[0]).toEqual({
+      signalId: inverse,
+      name: 'inverse',
+      sourceId: inverse,
+      error: new Error('division by zero'),
+      handling: 'propagate',
+    });
+  });
+
+  it('should drop a failing reducer, keeping the state alive', async () => {
+    store = new Store({ errorPolicy: 'drop' });
+    setup(store);
+    const values: number[] = [];
+    store.getBehavior(counter).subscribe(value => values.push(value));
+    await store.dispatch(add, 1);
+    await store.dispatch(add, -5);
+    expect(await store.dispatch(add, 1)).toBe(false);
+    expect(values).toEqual([1, 2]);
+    expect(errors.map(error => [error.name, error.sourceId, error.handling])).toEqual([
+      ['counter', add, 'drop'],
+    ]);
+  });
+
+  it('should use the policy of a source over the policy of the signal', async () => {
+    store = new Store();
+    setup(store);
+    store.setErrorPolicy(counter, 'propagate');
+    store.setErrorPolicy(counter, { type: 'restart', getBackoffTime: () => 10 }, add);
+    await store.dispatch(add, -5);
+    expect(errors.map(error => error.handling)).toEqual(['restart']);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    await store.dispatch(add, 2);
+    await expectSequence(store.getBehavior(counter), [3]);
+  });
+
+  it('should not use the policy of a reducer for other signals', async () => {
+    store = new Store();
+    setup(store);
+    store.setErrorPolicy(counter, 'drop', add);
+    let receivedError: unknown = null;
+    store.getEventStream(add).subscribe({ error: error => (receivedError = error) });
+    store.addEventSource(
+      add,
+      defer(() => throwError(() => new Error('unavailable'))),
+    );
+    await expect(store.dispatch(add, 1)).resolves.toBe(false);
+    expect(receivedError).toEqual(new Error('unavailable'));
+    // the propagated error reaches the reducer, hence the policy of the reducer is used:
+    expect(errors.map(error => [error.signalId, error.handling])).toEqual([
+      [add, 'propagate'],
+      [counter, 'drop'],
+    ]);
+  });
+
+  it('should count the restarts per signal and source', async () => {
+    store = new Store({
+      errorPolicy: { type: 'restart', maxRestarts: 1, getBackoffTime: () => 0 },
+    });
+    setup(store);
+    store.addState(sum, 0);
+    store.addReducer(sum, add, (state, event) => {
+      if (event < -1) {
+        throw new Error('negative');
+      }
+      return state + event;
+    });
+    await store.dispatch(add, -5);
+    expect(errors.map(error => [error.signalId, error.sourceId, error.handling])).toEqual([
+      [counter, add, 'restart'],
+      [sum, add, 'restart'],
+    ]);
+  });
+
+  it('should reset the restarts, once a restarted source delivers a value', async () => {
+    store = new Store({
+      errorPolicy: { type: 'restart', maxRestarts: 1, getBackoffTime: () => 0 },
+    });
+    setup(store);
+    await store.dispatch(add, -5);
+    expect(await store.dispatch(add, 1)).toBe(true);
+    await store.dispatch(add, -5);
+    expect(errors.map(error => error.handling)).toEqual(['restart', 'restart']);
+    expect(await store.dispatch(add, 1)).toBe(true);
+    await expectSequence(store.getBehavior(counter), [3]);
+  });
+
+  it('should restart a failing event source with backoff', async () => {
+    store = new Store();
+    setup(store);
+    let subscriptions = 0;
+    const sourceId = store.addEventSource(
+      sourced,
+      defer(() => {
+        subscriptions += 1;
+        return subscriptions < 3 ? throwError(() => new Error('unavailable')) : of(42);
+      }),
+    );
+    store.setErrorPolicy(
+      sourced,
+      { type: 'restart', getBackoffTime: restart => restart * 10 },
+      sourceId,
+    );
+    const sequence = expectSequence(store.getEventStream(sourced), [42]);
+    await sequence;
+    expect(subscriptions).toBe(3);
+    expect(errors.map(error => [error.signalId, error.handling])).toEqual([
+      [sourced, 'restart'],
+      [sourced, 'restart'],
+    ]);
+  });
+
+  it('should drop a source that exceeds the maximum number of restarts', async () => {
+    store = new Store({
+      errorPolicy: { type: 'restart', maxRestarts: 2, getBackoffTime: () => 1 },
+    });
+    setup(store);
+    store.addEventSource(
+      sourced,
+      defer(() => throwError(() => new Error('unavailable'))),
+    );
+    store.getEventStream(sourced).subscribe();
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(errors.map(error => error.handling)).toEqual(['restart', 'restart', 'drop']);
+    expect(store.getNumberOfEventSources(sourced)).toBe(0);
+  });
+});
@@ -0,0 +1,76 @@
+import { EMPTY, delay, of, tap } from 'rxjs';
+import { Store, TypedEvent } from '../src/store';
+import { getEventId, getStateId } from '../src/store-utils';
+import { expectSequence, waitFor } from '../src/test-utils/test-utils';
+
+describe('Event middleware', () => {
+  const counter = getStateId<number>();
+  const add = getEventId<number>();
+  const sourcedAdd = getEventId<number>();
+
+  let store: Store;
+
+  beforeEach(() => {
+    store = new Store();
+    store.addState(counter, 0);
+    store.addReducer(counter, add, (state, event) => state + event);
+    store.addReducer(counter, sourcedAdd, (state, event) => state + event);
+  });
+
+  it('should observe dispatched and sourced events', async () => {
+    const observed: TypedEvent<unknown>[] = [];
+    store.addEventMiddleware(typedEvent =>
+      of(typedEvent.event).pipe(tap(() => observed.push(typedEvent))),
+    );
+    store.addEventSource(sourcedAdd, of(5));
+    await store.dispatch(add, 1);
+    expect(observed).toEqual([
+      { type: sourcedAdd, event: 5 },
+      { type: add, event: 1 },
+    ]);
+    await expectSequence(store.getBehavior(counter), [6]);
+  });
+
+  it('should transform events in the order of the middlewares', async () => {
+    store.addEventMiddleware(typedEvent => of((typedEvent.event as number) * 10));
+    store.addEventMiddleware(typedEvent => of((typedEvent.event as number) + 1));
+    expect(await store.dispatch(add, 2)).toBe(true);
+    await expectSequence(store.getBehavior(counter), [21]);
+  });
+
+  it('should drop events', async () => {
+    store.addEventMiddleware(typedEvent =>
+      typedEvent.type === add ? EMPTY : of(typedEvent.event),
+    );
+    store.add2TypedEventSource(
+      add,
+      sourcedAdd,
+      of<TypedEvent<number>[]>({ type: add, event: 1 }, { type: sourcedAdd, event: 2 }),
+    );
+    expect(await store.dispatch(add, 3)).toBe(false);
+    await waitFor(store, counter, value => value === 2);
+    await expectSequence(store.getBehavior(counter), [2]);
+  });
+
+  it('should delay events', async () => {
+    store.addEventMiddleware(typedEvent =>
+      typedEvent.type === add ? of(typedEvent.event).pipe(delay(50)) : of(typedEvent.event),
+    );
+    const result = store.dispatch(add, 1);
+    await store.dispatch(sourcedAdd, 2);
+    await expectSequence(store.getBehavior(counter), [2]);
+    await result;
+    await expectSequence(store.getBehavior(counter), [3]);
+  });
+
+  it('should apply parent middlewares to child store events and support removal', async () => {
+    const middlewareId = store.addEventMiddleware(() => EMPTY);
+    const child = store.createChildStore();
+    child.addState(counter, 0);
+    child.addReducer(counter, add, (state, event) => state + event);
+    expect(await child.dispatch(add, 1)).toBe(false);
+    store.removeEventMiddleware(middlewareId);
+    expect(await child.dispatch(add, 1)).toBe(true);
+    await expectSequence(child.getBehavior(counter), [1]);
+  });
+});
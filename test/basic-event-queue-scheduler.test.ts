@@ -0,0 +1,76 @@
+import { VirtualTimeScheduler, queueScheduler } from 'rxjs';
+import { Store } from '../src/store';
+import { getEventId, getStateId } from '../src/store-utils';
+
+describe('Event queue scheduler', () => {
+  const counter = getStateId<number>();
+  const increment = getEventId<undefined>();
+
+  let store: Store;
+  let values: number[];
+
+  const setup = (s: Store) => {
+    s.addState(counter, 0);
+    s.addReducer(counter, increment, state => state + 1);
+    values = [];
+    s.getBehavior(counter).subscribe(value => values.push(value));
+  };
+
+  it('should deliver events in a macrotask by default', async () => {
+    store = new Store();
+    setup(store);
+    store.dispatch(increment);
+    await Promise.resolve();
+    expect(values).toEqual([0]);
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(values).toEqual([0, 1]);
+  });
+
+  it('should deliver events in a microtask', async () => {
+    store = new Store({ eventQueueScheduler: 'microtask' });
+    setup(store);
+    store.dispatch(increment);
+    expect(values).toEqual([0]);
+    await Promise.resolve();
+    await Promise.resolve();
+    expect(values).toEqual([0, 1]);
+  });
+
+  it('should deliver events using a given scheduler', () => {
+    store = new Store({ eventQueueScheduler: queueScheduler });
+    setup(store);
+    store.dispatch(increment);
+    store.dispatch(increment);
+    expect(values).toEqual([0, 1, 2]);
+  });
+
+  it('should deliver events in virtual time', () => {
+    const scheduler = new VirtualTimeScheduler();
+    store = new Store({ eventQueueScheduler: scheduler });
+    setup(store);
+    store.dispatch(increment);
+    expect(values).toEqual([0]);
+    scheduler.flush();
+    expect(values).toEqual([0, 1]);
+  });
+
+  it('should deliver events only on manual flush', () => {
+    store = new Store({ eventQueueScheduler: 'manual' });
+    setup(store);
+    store.dispatch(increment);
+    store.dispatch(increment);
+    expect(values).toEqual([0]);
+    store.flushEventQueue();
+    expect(values).toEqual([0, 1, 2]);
+  });
+
+  it('should share the scheduler with child stores', () => {
+    store = new Store({ eventQueueScheduler: 'manual' });
+    const child = store.createChildStore();
+    setup(child);
+    child.dispatch(increment);
+    expect(values).toEqual([0]);
+    store.flushEventQueue();
+    expect(values).toEqual([0, 1]);
+  });
+});
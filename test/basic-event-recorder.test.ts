@@ -0,0 +1,111 @@
+import { map } from 'rxjs';
+import { Store } from '../src/store';
+import { getEventId, getStateId } from '../src/store-utils';
+import { expectSequence } from '../src/test-utils/test-utils';
+
+describe('Event recorder', () => {
+  const counter = getStateId<number>();
+  const sum = getStateId<number>();
+  const increment = getEventId<undefined>();
+  const add = getEventId<number>();
+
+  let store: Store;
+
+  beforeEach(() => {
+    store = new Store();
+    store.addState(counter, 0);
+    store.addReducer(counter, increment, state => state + 1);
+    store.addState(sum, 0);
+    store.addReducer(sum, add, (state, event) => state + event);
+    store.addEventSource(add, store.getEventStream(increment).pipe(map(() => 10)));
+    store.setIdName(counter, 'counter');
+    store.setIdName(sum, 'sum');
+    store.setIdName(increment, 'increment');
+    store.setIdName(add, 'add');
+  });
+
+  it('should record events together with the resulting state', async () => {
+    const recorder = store.getEventRecorder();
+    await store.dispatch(increment);
+    await store.dispatch(add, 5);
+    expect(recorder.getRecords()).toEqual([
+      {
+        type: increment,
+        event: undefined,
+        name: 'increment',
+        state: { counter: 1, sum: 0 },
+      },
+      {
+        type: add,
+        event: 10,
+        name: 'add',
+        state: { counter: 1, sum: 10 },
+      },
+      {
+        type: add,
+        event: 5,
+        name: 'add',
+        state: { counter: 1, sum: 15 },
+      },
+    ]);
+    expect(recorder.getCurrentIndex()).toBe(2);
+  });
+
+  it('should jump back and forth', async () => {
+    const recorder = store.getEventRecorder();
+    await store.dispatch(increment);
+    await store.dispatch(add, 5);
+
+    const sequence = expectSequence(store.getBehavior(sum), [15, 0, 10, 0, 10, 15]);
+    await recorder.jumpTo(-1);
+    expect(store.getStateSnapshot()).toEqual({ counter: 0, sum: 0 });
+    expect(recorder.getCurrentIndex()).toBe(-1);
+    await recorder.jumpTo(1);
+    expect(store.getStateSnapshot()).toEqual({ counter: 1, sum: 10 });
+    await recorder.stepForward();
+    expect(store.getStateSnapshot()).toEqual({ counter: 1, sum: 15 });
+    expect(recorder.getCurrentIndex()).toBe(2);
+    await sequence;
+
+    await recorder.stepBack();
+    expect(store.getStateSnapshot()).toEqual({ counter: 1, sum: 10 });
+    expect(recorder.getRecords().length).toBe(3);
+  });
+
+  it('should keep event sources after a jump and drop records after the current index on new events', async () => {
+    const recorder = store.getEventRecorder();
+    await store.dispatch(increment);
+    await store.dispatch(add, 5);
+    await recorder.jumpTo(0);
+    expect(store.getStateSnapshot()).toEqual({ counter: 1, sum: 0 });
+    expect(store.getNumberOfEventSources(add)).toBe(1);
+
+    const sequence = expectSequence(store.getBehavior(sum), [0, 10]);
+    await store.dispatch(increment);
+    await sequence;
+    expect(store.getStateSnapshot()).toEqual({ counter: 2, sum: 10 });
+    expect(recorder.getRecords().map(r => r.name)).toEqual(['increment', 'increment', 'add']);
+    expect(recorder.getCurrentIndex()).toBe(2);
+  });
+
+  it('should continue jumping after a failed jump', async () => {
+    const recorder = store.getEventRecorder();
+    await store.dispatch(add, 5);
+    jest.spyOn(store, 'resetBehaviors').mockImplementationOnce(() => {
+      throw new Error('reset failed');
+    });
+    await expect(recorder.jumpTo(-1)).rejects.toThrow('reset failed');
+    expect(recorder.getCurrentIndex()).toBe(0);
+    await recorder.jumpTo(-1);
+    expect(store.getStateSnapshot()).toEqual({ counter: 0, sum: 0 });
+    expect(recorder.getCurrentIndex()).toBe(-1);
+  });
+
+  it('should stop recording', async () => {
+    const recorder = store.getEventRecorder();
+    await store.dispatch(add, 5);
+    recorder.stop();
+    await store.dispatch(add, 5);
+    expect(recorder.getRecords().length).toBe(1);
+  });
+});
@@ -1,6 +1,6 @@
-import { map } from 'rxjs';
-import { Store } from '../src/store';
-import { getStateId } from '../src/store-utils';
+import { map, of } from 'rxjs';
+import { LifecycleHandle, Store } from '../src/store';
+import { StateId, getEffectId, getStateId } from '../src/store-utils';
 import { expectSequence } from '../src/test-utils/test-utils';
 import { getEventId } from './../src/store-utils';
 
@@ -24,14 +24,72 @@ describe('Lifecycle basics', () => {
     expect(typeof handle.reset).toBe('function');
   });
 
-  it('should throw, if getLifecycleHandle is called from within a getLifecycle callback', () => {
-    expect(() => {
-      store.getLifecycleHandle(s => {
-        s.getLifecycleHandle(() => {});
+  it('should end nested lifecycles together with the outer lifecycle', () => {
+    let innerHandle: LifecycleHandle | null = null;
+    const handle = store.getLifecycleHandle(s => {
+      s.addState(numberBehavior, 1);
+      innerHandle = s.getLifecycleHandle(inner => {
+        inner.addState(numberBehavior2, 2);
+      });
+    });
+    expect(innerHandle).not.toBe(null);
+    expect(store.getNumberOfBehaviorSources(numberBehavior2)).toBe(1);
+    handle.end();
+    expect(store.getNumberOfBehaviorSources(numberBehavior)).toBe(0);
+    expect(store.getNumberOfBehaviorSources(numberBehavior2)).toBe(0);
+  });
+
+  it('should end only the nested lifecycle, if ended directly', () => {
+    let innerHandle: LifecycleHandle | null = null;
+    store.getLifecycleHandle(s => {
+      s.addState(numberBehavior, 1);
+      innerHandle = s.getLifecycleHandle(inner => {
+        inner.addState(numberBehavior2, 2);
       });
-    }).toThrowError(
-      'getLifecycleHandle cannot be called while already within a lifecycleRegistrationCallback',
-    );
+    });
+    (innerHandle as unknown as LifecycleHandle).end();
+    expect(store.getNumberOfBehaviorSources(numberBehavior)).toBe(1);
+    expect(store.getNumberOfBehaviorSources(numberBehavior2)).toBe(0);
+  });
+
+  it('should remove reducers added to shared state when ending a lifecycle', async () => {
+    store.addState(numberBehavior, 0);
+    store.addReducer(numberBehavior, triggerEvent, state => state + 1);
+    const handle = store.getLifecycleHandle(s => {
+      s.addReducer(numberBehavior, numberEvent, (state, event) => state + event);
+    });
+    await store.dispatch(numberEvent, 10);
+    handle.end();
+    expect(store.getNumberOfBehaviorSources(numberBehavior)).toBe(2);
+    expect(await store.dispatch(numberEvent, 10)).toBe(false);
+    await store.dispatch(triggerEvent);
+    await expectSequence(store.getBehavior(numberBehavior), [11]);
+  });
+
+  it('should remove effects and complete child stores when ending a lifecycle', () => {
+    const effectId = getEffectId<number, number>();
+    let child: Store | null = null;
+    const handle = store.getLifecycleHandle(s => {
+      s.addEffect(effectId, input => of(input));
+      child = s.createChildStore();
+      child.addState(numberBehavior, 1);
+    });
+    expect(store.getNumberOfBehaviorSources(effectId as unknown as StateId<unknown>)).toBe(1);
+    handle.end();
+    expect(store.getNumberOfBehaviorSources(effectId as unknown as StateId<unknown>)).toBe(0);
+    expect((child as unknown as Store).getNumberOfBehaviorSources(numberBehavior)).toBe(0);
+  });
+
+  it('should call onEnd hooks once when ending a lifecycle', () => {
+    const teardown = jest.fn();
+    const handle = store.getLifecycleHandle(s => {
+      s.addState(numberBehavior, 1);
+    });
+    handle.onEnd(teardown);
+    expect(teardown).not.toHaveBeenCalled();
+    handle.end();
+    handle.end();
+    expect(teardown).toHaveBeenCalledTimes(1);
   });
 
   it('should remove event sources when ending a lifecycle', async () => {
@@ -0,0 +1,42 @@
+import { map } from 'rxjs';
+import { Store } from '../src/store';
+import { NO_VALUE, getDerivedId, getEventId, getStateId } from '../src/store-utils';
+import { withSubscription } from '../src/test-utils/test-utils';
+
+describe('peekBehavior', () => {
+  const counter = getStateId<number>();
+  const doubled = getDerivedId<number>();
+  const increment = getEventId<undefined>();
+
+  let store: Store;
+
+  beforeEach(() => {
+    store = new Store();
+    store.addState(counter, 1);
+    store.addReducer(counter, increment, state => state + 1);
+    store.addDerivedState(doubled, store.getBehavior(counter).pipe(map(value => value * 2)));
+  });
+
+  it('should return the current value of a stateful behavior', async () => {
+    expect(store.peekBehavior(counter)).toBe(1);
+    await store.dispatch(increment);
+    expect(store.peekBehavior(counter)).toBe(2);
+  });
+
+  it('should return NO_VALUE for unsubscribed or unknown behaviors', async () => {
+    expect(store.peekBehavior(doubled)).toBe(NO_VALUE);
+    expect(store.peekBehavior(getStateId<number>())).toBe(NO_VALUE);
+    await withSubscription(store.getBehavior(doubled), async () => {
+      expect(store.peekBehavior(doubled)).toBe(2);
+    });
+    expect(store.peekBehavior(doubled)).toBe(NO_VALUE);
+    expect(store.isSubscribed(doubled)).toBe(false);
+  });
+
+  it('should return the parent value, if the child has no source', () => {
+    const child = store.createChildStore();
+    expect(child.peekBehavior(counter)).toBe(1);
+    child.addState(counter, 5);
+    expect(child.peekBehavior(counter)).toBe(5);
+  });
+});
@@ -0,0 +1,71 @@
+import { of } from 'rxjs';
+import { SagaContext, Store } from '../src/store';
+import { getEffectId, getEventId, getStateId } from '../src/store-utils';
+
+describe('Sagas', () => {
+  const user = getStateId<string>();
+  const checkout = getEventId<number>();
+  const confirm = getEventId<undefined>();
+  const orderSubmitted = getEventId<string>();
+  const submitOrder = getEffectId<{ amount: number; user: string }, string>();
+
+  let store: Store;
+  let submitted: string[];
+
+  beforeEach(() => {
+    store = new Store();
+    store.addState(user, 'alice');
+    store.addEffect(submitOrder, ({ amount, user: name }) => of(`${name}:${amount}`));
+    submitted = [];
+    store.getEventStream(orderSubmitted).subscribe(order => submitted.push(order));
+  });
+
+  const checkoutSaga = async ({ take, select, call, put }: SagaContext) => {
+    const amount = await take(checkout);
+    await take(confirm);
+    const name = await select(user);
+    const order = await call(submitOrder, { amount, user: name });
+    await put(orderSubmitted, order as string);
+  };
+
+  it('should run a multi-step workflow', async () => {
+    const { done } = store.runSaga(checkoutSaga);
+    expect(await store.dispatch(checkout, 42)).toBe(true);
+    await store.dispatch(confirm);
+    await done;
+    expect(submitted).toEqual(['alice:42']);
+  });
+
+  it('should stop a cancelled saga', async () => {
+    const { cancel, done } = store.runSaga(checkoutSaga);
+    await store.dispatch(checkout, 42);
+    cancel();
+    await done;
+    await store.dispatch(confirm);
+    expect(submitted).toEqual([]);
+  });
+
+  it('should cancel sagas when the lifecycle ends', async () => {
+    let cancelled = false;
+    let done: Promise<void> = Promise.resolve();
+    const handle = store.getLifecycleHandle(s => {
+      ({ done } = s.runSaga(async ({ take, isCancelled }) => {
+        try {
+          await take(checkout);
+        } finally {
+          cancelled = isCancelled();
+        }
+      }));
+    });
+    handle.end();
+    await done;
+    expect(cancelled).toBe(true);
+  });
+
+  it('should reject done, if the saga fails', async () => {
+    const { done } = store.runSaga(async () => {
+      throw new Error('failed');
+    });
+    await expect(done).rejects.toThrow('failed');
+  });
+});
@@ -0,0 +1,71 @@
+import { map, of } from 'rxjs';
+import { Store } from '../src/store';
+import { getDerivedId, getEffectId, getEventId, getStateId } from '../src/store-utils';
+import { withSubscription } from '../src/test-utils/test-utils';
+
+describe('State snapshot', () => {
+  const counter = getStateId<number>();
+  const doubled = getDerivedId<number>();
+  const label = getDerivedId<string>();
+  const increment = getEventId<undefined>();
+  const effectId = getEffectId<number, number>();
+
+  let store: Store;
+
+  beforeEach(() => {
+    store = new Store();
+    store.addState(counter, 1);
+    store.addReducer(counter, increment, state => state + 1);
+    store.addDerivedState(doubled, store.getBehavior(counter).pipe(map(c => c * 2)));
+    store.addEffect(effectId, input => of(input));
+    store.setIdName(counter, 'counter');
+    store.setIdName(doubled, 'doubled');
+  });
+
+  it('should contain the current values of subscribed behaviors', async () => {
+    expect(store.getStateSnapshot()).toEqual({
+      counter: 1,
+    });
+    await withSubscription(store.getBehavior(doubled), async () => {
+      expect(store.getStateSnapshot()).toEqual({
+        counter: 1,
+        doubled: 2,
+      });
+      await store.dispatch(increment);
+      expect(store.getStateSnapshot()).toEqual({
+        counter: 2,
+        doubled: 4,
+      });
+    });
+    expect(store.getStateSnapshot()).toEqual({
+      counter: 2,
+    });
+  });
+
+  it('should not subscribe lazy behaviors', () => {
+    store.getStateSnapshot();
+    expect(store.isSubscribed(doubled)).toBe(false);
+  });
+
+  it('should fall back to the default id string, if no name was set', async () => {
+    store.addDerivedState(label, of('test'));
+    await withSubscription(store.getBehavior(label), async () => {
+      expect(store.getStateSnapshot()[label.toString()]).toBe('test');
+    });
+  });
+
+  it('should include the parent-store chain, if requested', async () => {
+    const childStore = store.createChildStore();
+    childStore.addDerivedState(label, of('child'));
+    childStore.setIdName(label, 'label');
+    await withSubscription(childStore.getBehavior(label), async () => {
+      expect(childStore.getStateSnapshot()).toEqual({
+        label: 'child',
+      });
+      expect(childStore.getStateSnapshot(true)).toEqual({
+        counter: 1,
+        label: 'child',
+      });
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { Store } from '../src/store';
+import { getEventId, getStateId } from '../src/store-utils';
+import { waitFor } from '../src/test-utils/test-utils';
+
+describe('waitFor', () => {
+  const counter = getStateId<number>();
+  const increment = getEventId<undefined>();
+
+  let store: Store;
+
+  beforeEach(() => {
+    store = new Store();
+    store.addState(counter, 0);
+    store.addReducer(counter, increment, state => state + 1);
+    store.setIdName(counter, 'counter');
+  });
+
+  it('should resolve with the first matching value', async () => {
+    const result = store.waitFor(counter, value => value > 1);
+    store.dispatch(increment);
+    store.dispatch(increment);
+    store.dispatch(increment);
+    expect(await result).toBe(2);
+  });
+
+  it('should resolve immediately, if the current value matches', async () => {
+    expect(await store.waitFor(counter, value => value === 0)).toBe(0);
+  });
+
+  it('should reject on timeout', async () => {
+    await expect(store.waitFor(counter, value => value > 0, { timeout: 10 })).rejects.toThrow(
+      'waitFor timed out after 10ms: counter',
+    );
+  });
+
+  it('should reject on completion', async () => {
+    const result = store.waitFor(counter, value => value > 0);
+    store.completeBehavior(counter);
+    await expect(result).rejects.toThrow(
+      'The behavior completed without a matching value: counter',
+    );
+  });
+
+  it('should be available from the test utils', async () => {
+    const result = waitFor(store, counter, value => value === 1);
+    store.dispatch(increment);
+    expect(await result).toBe(1);
+    await expect(waitFor(store, counter, value => value === 5, 10)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,89 @@
+import { combineLatest, map } from 'rxjs';
+import { toDot, toMermaid } from '../src/dependency-graph';
+import { Store } from '../src/store';
+import { getDerivedId, getEventId, getStateId } from '../src/store-utils';
+import { withSubscription } from '../src/test-utils/test-utils';
+
+describe('Dependency graph', () => {
+  const counter = getStateId<number>();
+  const factor = getStateId<number>();
+  const product = getDerivedId<number>();
+  const increment = getEventId<undefined>();
+  const productChanged = getEventId<number>();
+
+  let store: Store;
+
+  beforeEach(() => {
+    store = new Store();
+    store.addState(counter, 1);
+    store.addReducer(counter, increment, state => state + 1);
+    store.addState(factor, 2);
+    store.addDerivedState(
+      product,
+      combineLatest([store.getBehavior(counter), store.getBehavior(factor)]).pipe(
+        map(([c, f]) => c * f),
+      ),
+    );
+    store.addEventSource(productChanged, store.getBehavior(product));
+    store.setIdName(counter, 'counter');
+    store.setIdName(factor, 'factor');
+    store.setIdName(product, 'product');
+    store.setIdName(increment, 'increment');
+    store.setIdName(productChanged, 'productChanged');
+  });
+
+  it('should contain reducer dependencies of stateful behaviors', () => {
+    const graph = store.getDependencyGraph();
+    expect(graph.edges).toEqual([{ from: increment, to: counter, reducer: true }]);
+    expect(graph.nodes.find(node => node.id === counter)).toEqual({
+      id: counter,
+      name: 'counter',
+      kind: 'state',
+    });
+  });
+
+  it('should contain dependencies of lazy sources, once subscribed', async () => {
+    await withSubscription(store.getEventStream(productChanged), async () => {
+      const graph = store.getDependencyGraph();
+      expect(graph.edges).toEqual([
+        { from: increment, to: counter, reducer: true },
+        { from: counter, to: product, reducer: false },
+        { from: factor, to: product, reducer: false },
+        { from: product, to: productChanged, reducer: false },
+      ]);
+    });
+  });
+
+  it('should export to Mermaid and DOT', async () => {
+    await withSubscription(store.getBehavior(product), async () => {
+      const graph = store.getDependencyGraph();
+      expect(toMermaid(graph)).toBe(
+        [
+          'flowchart LR',
+          '  n0["counter"]',
+          '  n1>"increment"]',
+          '  n2["factor"]',
+          '  n3(["product"])',
+          '  n4>"productChanged"]',
+          '  n1 -- reducer --> n0',
+          '  n0 --> n3',
+          '  n2 --> n3',
+        ].join('\n'),
+      );
+      expect(toDot(graph)).toBe(
+        [
+          'digraph {',
+          '  n0 [label="counter", shape=box];',
+          '  n1 [label="increment", shape=cds];',
+          '  n2 [label="factor", shape=box];',
+          '  n3 [label="product", shape=ellipse];',
+          '  n4 [label="productChanged", shape=cds];',
+          '  n1 -> n0 [label="reducer"];',
+          '  n0 -> n3;',
+          '  n2 -> n3;',
+          '}',
+        ].join('\n'),
+      );
+    });
+  });
+});
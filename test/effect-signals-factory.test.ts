@@ -1,18 +1,28 @@
-import { Observable, Subject, interval, map, of } from 'rxjs';
-import { delay, filter, skip, take } from 'rxjs/operators';
+import { BehaviorSubject, Observable, Subject, firstValueFrom, interval, map, of } from 'rxjs';
+import { delay, filter, skip, take, timeout } from 'rxjs/operators';
 import {
   CombinedEffectResult,
+  EffectConfiguration,
   EffectInputSignals,
+  EffectResultEvent,
   EffectOutputSignals,
   EffectSignalsFactory,
   getEffectSignalsFactory,
   isCombinedEffectResultInCompletedSuccessState,
+  isCombinedEffectResultInSuccessState,
   isCompletedResultEvent,
 } from '../src/effect-signals-factory';
-import { Effect, Store } from '../src/store';
-import { NO_VALUE, getStateId, isNotNoValueType } from '../src/store-utils';
-import { expectSequence, withSubscription } from '../src/test-utils/test-utils';
-import { effectErrorKind, isNotEffectError } from './../src/effect-result';
+import { Effect, Store, UnhandledEffectError } from '../src/store';
+import {
+  EffectId,
+  NO_VALUE,
+  StateId,
+  getEventId,
+  getStateId,
+  isNotNoValueType,
+} from '../src/store-utils';
+import { expectSequence, waitFor, withSubscription } from '../src/test-utils/test-utils';
+import { effectErrorKind, isNotEffectError, toEffectError } from './../src/effect-result';
 import { CombinedEffectResultInSuccessState } from './../src/effect-signals-factory';
 import { getEffectId } from './../src/store-utils';
 
@@ -1686,4 +1696,409 @@ describe('effect signals factory', () => {
       });
     });
   });
+
+  type EffectFixture<InputType, ResultType> = {
+    input: Omit<EffectInputSignals<InputType>, 'input'>;
+    output: EffectOutputSignals<InputType, ResultType, string>;
+    combined: CombinedEffectResult<InputType, ResultType, string>[];
+    results: EffectResultEvent<InputType, ResultType, string>[];
+    settled: () => Promise<CombinedEffectResult<InputType, ResultType, string>>;
+  };
+
+  const setupEffectFixture = <InputType, ResultType>(
+    inputId: StateId<InputType>,
+    effectId: EffectId<InputType, ResultType, string>,
+    config: EffectConfiguration<InputType, ResultType, string>,
+  ): EffectFixture<InputType, ResultType> => {
+    const signals = getEffectSignalsFactory<InputType, ResultType, string>()
+      .connectId(inputId, 'input', false)
+      .useExistingEffect('id', () => effectId, false)
+      .build(config);
+    signals.setup(store);
+    const combined: CombinedEffectResult<InputType, ResultType, string>[] = [];
+    const results: EffectResultEvent<InputType, ResultType, string>[] = [];
+    store.getBehavior(signals.output.combined).subscribe(c => combined.push(c));
+    store.getEventStream(signals.output.results).subscribe(r => results.push(r));
+    return {
+      input: signals.input,
+      output: signals.output,
+      combined,
+      results,
+      settled: () => waitFor(store, signals.output.combined, c => !c.resultPending),
+    };
+  };
+
+  const waitForLength = <T>(values: BehaviorSubject<T[]>, length: number): Promise<T[]> =>
+    firstValueFrom(
+      values.pipe(
+        filter(v => v.length === length),
+        timeout(3000),
+      ),
+    );
+
+  describe('with cache', () => {
+    const cachedInputId = getStateId<InputModel>();
+    const cachedEffectId = getEffectId<InputModel, string, string>();
+    let cachedEffectCalls: string[];
+    let cachedInputSubject: Subject<InputModel>;
+    let fixture: EffectFixture<InputModel, string>;
+
+    const setup = (cache: EffectConfiguration<InputModel, string, string>['cache']) => {
+      cachedEffectCalls = [];
+      cachedInputSubject = new Subject<InputModel>();
+      store.connectObservable(cachedInputSubject.asObservable(), cachedInputId);
+      store.addEffect(cachedEffectId, input => {
+        cachedEffectCalls.push(input.searchString);
+        return of(`${input.searchString}_${cachedEffectCalls.length}`).pipe(delay(10));
+      });
+      fixture = setupEffectFixture(cachedInputId, cachedEffectId, { cache });
+    };
+
+    const inputs: Record<string, InputModel> = {
+      a: { searchString: 'a', page: 0 },
+      b: { searchString: 'b', page: 0 },
+    };
+
+    const next = async (searchString: string, expectedResult: string) => {
+      cachedInputSubject.next(inputs[searchString]);
+      await waitFor(
+        store,
+        fixture.output.combined,
+        c => c.result === expectedResult && !c.resultPending,
+      );
+    };
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should show cached results immediately and revalidate them', async () => {
+      setup({});
+      await next('a', 'a_1');
+      await next('b', 'b_2');
+      fixture.combined.length = 0;
+      await next('a', 'a_3');
+      expect(cachedEffectCalls).toEqual(['a', 'b', 'a']);
+      expect(fixture.combined.map(c => [c.result, c.resultPending])).toEqual([
+        ['b_2', true],
+        ['a_1', true],
+        ['a_3', true],
+        ['a_3', false],
+      ]);
+    });
+
+    it('should not revalidate fresh results', async () => {
+      setup({ staleTime: 10000 });
+      await next('a', 'a_1');
+      await next('b', 'b_2');
+      await next('a', 'a_1');
+      expect(cachedEffectCalls).toEqual(['a', 'b']);
+    });
+
+    it('should revalidate fresh results on invalidate', async () => {
+      setup({ staleTime: 10000 });
+      await next('a', 'a_1');
+      await store.dispatch(fixture.input.invalidate);
+      await waitFor(store, fixture.output.combined, c => c.result === 'a_2' && !c.resultPending);
+      expect(cachedEffectCalls).toEqual(['a', 'a']);
+    });
+
+    it('should remove results after the cache time', async () => {
+      setup({ cacheTime: 1000 });
+      await next('a', 'a_1');
+      await next('b', 'b_2');
+      const now = Date.now();
+      jest.spyOn(Date, 'now').mockReturnValue(now + 2000);
+      fixture.combined.length = 0;
+      await next('a', 'a_3');
+      expect(fixture.combined.map(c => c.result)).not.toContain('a_1');
+    });
+
+    it('should use the given cache key', async () => {
+      setup({ staleTime: 10000, getKey: input => input.searchString });
+      await next('a', 'a_1');
+      await next('b', 'b_2');
+      cachedInputSubject.next({ searchString: 'a', page: 1 });
+      await waitFor(store, fixture.output.combined, c => c.result === 'a_1' && !c.resultPending);
+      expect(cachedEffectCalls).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('with retry', () => {
+    const retryInputId = getStateId<string>();
+    const retryEffectId = getEffectId<string, string, string>();
+    let attempts: number;
+    let failures: number;
+    let fixture: EffectFixture<string, string>;
+
+    const setup = (retry: EffectConfiguration<string, string, string>['retry']) => {
+      attempts = 0;
+      store.addState(retryInputId, 'input');
+      store.addEffect(retryEffectId, input => {
+        attempts = attempts + 1;
+        if (attempts <= failures) {
+          throw `failure ${attempts}`;
+        }
+        return of(`${input}_result`);
+      });
+      fixture = setupEffectFixture(retryInputId, retryEffectId, { retry });
+    };
+
+    it('should retry until the effect succeeds', async () => {
+      failures = 2;
+      setup({ initialDelay: 0, jitter: 0 });
+      await fixture.settled();
+      expect(attempts).toBe(3);
+      expect(fixture.combined.filter(c => c.retry).map(c => [c.retry?.attempt, c.result])).toEqual([
+        [2, toEffectError({ unhandledError: 'failure 1' })],
+        [3, toEffectError({ unhandledError: 'failure 2' })],
+      ]);
+      expect(fixture.combined[fixture.combined.length - 1]).toEqual({
+        currentInput: 'input',
+        result: 'input_result',
+        resultInput: 'input',
+        resultPending: false,
+      });
+      expect(fixture.results.map(r => r.result)).toEqual(['input_result', 'input_result']);
+    });
+
+    it('should give the next retry time', async () => {
+      failures = 1;
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+      setup({ initialDelay: 50, jitter: 0 });
+      await waitFor(store, fixture.output.combined, c => !!c.retry);
+      expect(fixture.combined[fixture.combined.length - 1].retry?.nextRetryTime).toBe(1050);
+      now.mockRestore();
+      await fixture.settled();
+    });
+
+    it('should stop after the maximum attempts', async () => {
+      failures = 5;
+      setup({ maxAttempts: 2, initialDelay: 0 });
+      await fixture.settled();
+      expect(attempts).toBe(2);
+      expect(fixture.combined[fixture.combined.length - 1]).toEqual({
+        currentInput: 'input',
+        result: toEffectError({ unhandledError: 'failure 2' }),
+        resultInput: 'input',
+        resultPending: false,
+      });
+      expect(fixture.results.map(r => r.result)).toEqual([
+        toEffectError({ unhandledError: 'failure 2' }),
+      ]);
+    });
+
+    it('should not retry, if the predicate returns false', async () => {
+      failures = 5;
+      setup({
+        initialDelay: 0,
+        shouldRetry: error => (error.error as UnhandledEffectError).unhandledError !== 'failure 1',
+      });
+      await fixture.settled();
+      expect(attempts).toBe(1);
+    });
+  });
+
+  describe('with concurrency and cancellation', () => {
+    const concurrencyInputId = getStateId<string>();
+    const setInput = getEventId<string>();
+    const concurrencyEffectId = getEffectId<string, string, string>();
+    let calls: BehaviorSubject<string[]>;
+    let effectResults: Record<string, Subject<string>>;
+    let completedResults: BehaviorSubject<string[]>;
+    let fixture: EffectFixture<string, string>;
+
+    const setup = (concurrency: EffectConfiguration<string, string, string>['concurrency']) => {
+      calls = new BehaviorSubject<string[]>([]);
+      effectResults = {};
+      store.addState(concurrencyInputId, 'a');
+      store.addReducer(concurrencyInputId, setInput, (_, input) => input);
+      store.addEffect(concurrencyEffectId, input => {
+        calls.next([...calls.value, input]);
+        effectResults[input] = new Subject<string>();
+        return effectResults[input];
+      });
+      fixture = setupEffectFixture(concurrencyInputId, concurrencyEffectId, { concurrency });
+      completedResults = new BehaviorSubject<string[]>([]);
+      store
+        .getEventStream(fixture.output.completedResults)
+        .subscribe(r =>
+          completedResults.next([...completedResults.value, `${r.resultInput}:${r.result}`]),
+        );
+    };
+
+    const complete = (input: string) => {
+      effectResults[input].next(`${input}_result`);
+      effectResults[input].complete();
+    };
+
+    const getLatest = () => fixture.combined[fixture.combined.length - 1];
+
+    it('should cancel the running effect with switch', async () => {
+      setup('switch');
+      await waitForLength(calls, 1);
+      await store.dispatch(setInput, 'b');
+      await waitForLength(calls, 2);
+      complete('a');
+      complete('b');
+      await waitForLength(completedResults, 1);
+      await fixture.settled();
+      expect(completedResults.value).toEqual(['b:b_result']);
+      expect(getLatest()).toEqual({
+        currentInput: 'b',
+        result: 'b_result',
+        resultInput: 'b',
+        resultPending: false,
+      });
+    });
+
+    it('should perform effects concurrently with merge', async () => {
+      setup('merge');
+      await waitForLength(calls, 1);
+      await store.dispatch(setInput, 'b');
+      await waitForLength(calls, 2);
+      expect(getLatest().resultPending).toBe(true);
+      complete('b');
+      await waitForLength(completedResults, 1);
+      await fixture.settled();
+      complete('a');
+      await waitForLength(completedResults, 2);
+      expect(completedResults.value).toEqual(['b:b_result', 'a:a_result']);
+      expect(fixture.combined.map(c => c.result)).not.toContain('a_result');
+      expect(getLatest()).toEqual({
+        currentInput: 'b',
+        result: 'b_result',
+        resultInput: 'b',
+        resultPending: false,
+      });
+      expect(calls.value).toEqual(['a', 'b']);
+    });
+
+    it('should queue effects with concat', async () => {
+      setup('concat');
+      await waitForLength(calls, 1);
+      await store.dispatch(setInput, 'b');
+      await waitFor(store, fixture.output.combined, c => c.currentInput === 'b');
+      expect(calls.value).toEqual(['a']);
+      expect(getLatest().resultPending).toBe(true);
+      complete('a');
+      await waitForLength(calls, 2);
+      expect(getLatest().resultPending).toBe(true);
+      complete('b');
+      await waitForLength(completedResults, 2);
+      await fixture.settled();
+      expect(completedResults.value).toEqual(['a:a_result', 'b:b_result']);
+      expect(getLatest()).toEqual({
+        currentInput: 'b',
+        result: 'b_result',
+        resultInput: 'b',
+        resultPending: false,
+      });
+    });
+
+    it('should ignore inputs while running and perform the latest one with exhaust', async () => {
+      setup('exhaust');
+      await waitForLength(calls, 1);
+      await store.dispatch(setInput, 'b');
+      await store.dispatch(setInput, 'c');
+      await waitFor(store, fixture.output.combined, c => c.currentInput === 'c');
+      expect(calls.value).toEqual(['a']);
+      complete('a');
+      await waitForLength(calls, 2);
+      expect(calls.value).toEqual(['a', 'c']);
+      expect(getLatest()).toEqual({
+        currentInput: 'c',
+        result: 'a_result',
+        resultInput: 'a',
+        resultPending: true,
+      });
+      complete('c');
+      await waitForLength(completedResults, 2);
+      await fixture.settled();
+      expect(completedResults.value).toEqual(['a:a_result', 'c:c_result']);
+      expect(getLatest().result).toBe('c_result');
+    });
+
+    it('should cancel the running effect', async () => {
+      setup('switch');
+      await waitForLength(calls, 1);
+      await store.dispatch(fixture.input.cancel);
+      await waitFor(store, fixture.output.combined, c => !!c.cancelled);
+      expect(getLatest()).toEqual({
+        currentInput: 'a',
+        result: NO_VALUE,
+        resultInput: NO_VALUE,
+        resultPending: false,
+        cancelled: true,
+      });
+      expect(isCombinedEffectResultInSuccessState(getLatest())).toBe(false);
+      expect(isCombinedEffectResultInCompletedSuccessState(getLatest())).toBe(false);
+      expect(effectResults.a.observed).toBe(false);
+      await store.dispatch(setInput, 'b');
+      await waitForLength(calls, 2);
+      expect(getLatest().resultPending).toBe(true);
+      complete('b');
+      await waitForLength(completedResults, 1);
+      await fixture.settled();
+      expect(getLatest()).toEqual({
+        currentInput: 'b',
+        result: 'b_result',
+        resultInput: 'b',
+        resultPending: false,
+      });
+    });
+
+    it('should perform the effect for a cancelled input on invalidate', async () => {
+      setup('switch');
+      await waitForLength(calls, 1);
+      await store.dispatch(fixture.input.cancel);
+      await waitFor(store, fixture.output.combined, c => !!c.cancelled);
+      await store.dispatch(fixture.input.invalidate);
+      await waitForLength(calls, 2);
+      complete('a');
+      await waitForLength(completedResults, 1);
+      await fixture.settled();
+      expect(calls.value).toEqual(['a', 'a']);
+      expect(getLatest().result).toBe('a_result');
+    });
+
+    it('should drop queued effects on cancel with concat', async () => {
+      setup('concat');
+      await waitForLength(calls, 1);
+      await store.dispatch(setInput, 'b');
+      await store.dispatch(fixture.input.cancel);
+      await waitFor(store, fixture.output.combined, c => !!c.cancelled);
+      expect(calls.value).toEqual(['a']);
+      expect(completedResults.value).toEqual([]);
+      expect(getLatest()).toEqual({
+        currentInput: 'b',
+        result: NO_VALUE,
+        resultInput: NO_VALUE,
+        resultPending: false,
+        cancelled: true,
+      });
+    });
+
+    it('should ignore cancel, if the effect is not running', async () => {
+      setup('switch');
+      await waitForLength(calls, 1);
+      complete('a');
+      await waitForLength(completedResults, 1);
+      await fixture.settled();
+      await store.dispatch(fixture.input.cancel);
+      await store.dispatch(setInput, 'b');
+      await waitForLength(calls, 2);
+      complete('b');
+      await waitForLength(completedResults, 2);
+      await fixture.settled();
+      expect(completedResults.value).toEqual(['a:a_result', 'b:b_result']);
+      expect(fixture.combined.some(c => c.cancelled)).toBe(false);
+      expect(getLatest()).toEqual({
+        currentInput: 'b',
+        result: 'b_result',
+        resultInput: 'b',
+        resultPending: false,
+      });
+    });
+  });
 });
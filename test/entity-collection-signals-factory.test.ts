@@ -0,0 +1,153 @@
+import { map, of } from 'rxjs';
+import {
+  EntityCollectionInputSignals,
+  EntityCollectionOutputSignals,
+  getEntityCollectionSignalsFactory,
+  selectEntityById,
+} from '../src/entity-collection-signals-factory';
+import { Store } from '../src/store';
+import { getDerivedId } from '../src/store-utils';
+import { expectSequence } from '../src/test-utils/test-utils';
+
+describe('EntityCollectionSignalsFactory', () => {
+  type Todo = {
+    id: number;
+    title: string;
+    done: boolean;
+  };
+
+  const todo1: Todo = { id: 1, title: 'b', done: false };
+  const todo2: Todo = { id: 2, title: 'a', done: true };
+  const todo3: Todo = { id: 3, title: 'c', done: false };
+
+  const factory = getEntityCollectionSignalsFactory<Todo, number, string>();
+
+  let store: Store;
+  let input: EntityCollectionInputSignals<Todo, number, string>;
+  let output: EntityCollectionOutputSignals<Todo, number, string, string>;
+
+  describe('without sorting', () => {
+    beforeEach(() => {
+      store = new Store();
+      const signals = factory.build({});
+      signals.setup(store);
+      input = signals.input;
+      output = signals.output;
+    });
+
+    it('should start with an empty collection', async () => {
+      await expectSequence(store.getBehavior(output.collection), [{ ids: [], entities: {} }]);
+    });
+
+    it('should upsert entities', async () => {
+      const sequence = expectSequence(store.getBehavior(output.all), [
+        [],
+        [todo1],
+        [todo1, todo2],
+        [{ ...todo1, done: true }, todo2, todo3],
+      ]);
+      await store.dispatch(input.upsertOne, todo1);
+      await store.dispatch(input.upsertOne, todo2);
+      await store.dispatch(input.upsertMany, [{ ...todo1, done: true }, todo3]);
+      await sequence;
+    });
+
+    it('should update and remove entities', async () => {
+      const sequence = expectSequence(store.getBehavior(output.collection), [
+        { ids: [], entities: {} },
+        { ids: [1, 2, 3], entities: { 1: todo1, 2: todo2, 3: todo3 } },
+        { ids: [1, 2, 3], entities: { 1: { ...todo1, title: 'x' }, 2: todo2, 3: todo3 } },
+        { ids: [1, 3], entities: { 1: { ...todo1, title: 'x' }, 3: todo3 } },
+        { ids: [], entities: {} },
+      ]);
+      await store.dispatch(input.setAll, [todo1, todo2, todo3]);
+      await store.dispatch(input.updateOne, { id: 1, changes: { title: 'x' } });
+      await store.dispatch(input.updateOne, { id: 4, changes: { title: 'y' } });
+      await store.dispatch(input.removeOne, 2);
+      await store.dispatch(input.removeMany, [1, 3]);
+      await sequence;
+    });
+
+    it('should give the filtered entities', async () => {
+      const sequence = expectSequence(store.getBehavior(output.filtered), [
+        [],
+        [todo1, todo2, todo3],
+        [todo1, todo3],
+        [todo1],
+      ]);
+      await store.dispatch(input.setAll, [todo1, todo2, todo3]);
+      await store.dispatch(input.setFilter, todo => !todo.done);
+      await store.dispatch(input.removeOne, 3);
+      await sequence;
+    });
+
+    it('should give the selected entity', async () => {
+      const sequence = expectSequence(store.getBehavior(output.selected), [
+        null,
+        todo2,
+        { ...todo2, title: 'x' },
+        null,
+      ]);
+      await store.dispatch(input.setAll, [todo1, todo2]);
+      await store.dispatch(input.select, 2);
+      await store.dispatch(input.updateOne, { id: 2, changes: { title: 'x' } });
+      await store.dispatch(input.removeAll);
+      await sequence;
+    });
+
+    it('should select an entity by id', async () => {
+      const todo = store.getBehavior(output.entities).pipe(map(e => selectEntityById(e, 3)));
+      const sequence = expectSequence(todo, [null, todo3, { ...todo3, done: true }]);
+      await store.dispatch(input.upsertMany, [todo1, todo3]);
+      await store.dispatch(input.updateOne, { id: 3, changes: { done: true } });
+      await sequence;
+    });
+
+    it('should ignore inherited keys', async () => {
+      const byName = getEntityCollectionSignalsFactory<Todo, string, string>().build({
+        selectId: todo => todo.title,
+      });
+      byName.setup(store);
+      const sequence = expectSequence(store.getBehavior(byName.output.collection), [
+        { ids: [], entities: {} },
+        { ids: ['b'], entities: { b: todo1 } },
+      ]);
+      await store.dispatch(byName.input.updateOne, { id: 'constructor', changes: { done: true } });
+      await store.dispatch(byName.input.upsertOne, todo1);
+      await sequence;
+      await expectSequence(
+        store
+          .getBehavior(byName.output.entities)
+          .pipe(map(e => selectEntityById(e, 'constructor'))),
+        [null],
+      );
+    });
+  });
+
+  describe('with sorting and loading', () => {
+    beforeEach(() => {
+      store = new Store();
+      const loadInput = getDerivedId<string>();
+      store.addDerivedState(loadInput, of('all'));
+      const signals = factory
+        .connectId(loadInput, 'load', false)
+        .extendSetup(({ store: s, effects }) =>
+          s.addEffect(effects.load, filterInput => of(filterInput === 'all' ? [todo1, todo2] : [])),
+        )
+        .build({
+          sortComparer: (a, b) => a.title.localeCompare(b.title),
+        });
+      signals.setup(store);
+      output = signals.output;
+      input = { ...signals.input, load: loadInput };
+    });
+
+    it('should load and sort the entities', async () => {
+      store.getBehavior(output.load.combined).subscribe();
+      const sequence = expectSequence(store.getBehavior(output.ids), [[], [2, 1], [2, 1, 3]]);
+      await store.waitFor(output.ids, ids => ids.length === 2);
+      await store.dispatch(input.upsertOne, todo3);
+      await sequence;
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EventLog, getInMemoryEventLog, getJsonLinesEventLog } from '../src/event-log';
+import { Store } from '../src/store';
+import { getEventId, getStateId } from '../src/store-utils';
+import { expectSequence } from '../src/test-utils/test-utils';
+
+describe('Event sourcing', () => {
+  const todos = getStateId<string[]>();
+  const addTodo = getEventId<string>();
+  const removeTodo = getEventId<string>();
+  const notLogged = getEventId<undefined>();
+
+  let log: EventLog;
+  let timestamp: number;
+
+  const setup = (store: Store) => {
+    store.addState(todos, []);
+    store.addReducer(todos, addTodo, (state, event) => [...state, event]);
+    store.addReducer(todos, removeTodo, (state, event) => state.filter(todo => todo !== event));
+    store.addReducer(todos, notLogged, state => state);
+    return store.enableEventSourcing({
+      log,
+      events: { addTodo, removeTodo },
+      getTimestamp: () => {
+        timestamp += 1;
+        return timestamp;
+      },
+    });
+  };
+
+  beforeEach(() => {
+    log = getInMemoryEventLog();
+    timestamp = 1000;
+  });
+
+  it('should append selected events with sequence numbers and timestamps', async () => {
+    const store = new Store();
+    setup(store);
+    await store.dispatch(addTodo, 'a');
+    await store.dispatch(notLogged);
+    await store.dispatch(removeTodo, 'a');
+    expect(log.read()).toEqual([
+      { sequence: 1, timestamp: 1001, name: 'addTodo', event: 'a' },
+      { sequence: 2, timestamp: 1002, name: 'removeTodo', event: 'a' },
+    ]);
+  });
+
+  it('should rebuild the state from the log and continue the sequence', async () => {
+    const store = new Store();
+    setup(store);
+    await store.dispatch(addTodo, 'a');
+    await store.dispatch(addTodo, 'b');
+    await store.dispatch(removeTodo, 'a');
+
+    const rebuiltStore = new Store();
+    const eventSourcing = setup(rebuiltStore);
+    await eventSourcing.rebuild();
+    await expectSequence(rebuiltStore.getBehavior(todos), [['b']]);
+    expect(log.read().length).toBe(3);
+
+    await rebuiltStore.dispatch(addTodo, 'c');
+    expect(log.read()[3]).toEqual({ sequence: 4, timestamp: 1004, name: 'addTodo', event: 'c' });
+  });
+
+  it('should not log events replayed by an event recorder', async () => {
+    const store = new Store();
+    setup(store);
+    const recorder = store.getEventRecorder();
+    await store.dispatch(addTodo, 'a');
+    await store.dispatch(addTodo, 'b');
+    await recorder.jumpTo(0);
+    await expectSequence(store.getBehavior(todos), [['a']]);
+    expect(log.read().map(entry => entry.event)).toEqual(['a', 'b']);
+
+    const rebuiltStore = new Store();
+    await setup(rebuiltStore).rebuild();
+    await expectSequence(rebuiltStore.getBehavior(todos), [['a', 'b']]);
+  });
+
+  it('should reject rebuilding for unknown events in the log', async () => {
+    log.append({ sequence: 1, timestamp: 0, name: 'unknown', event: null });
+    const store = new Store();
+    await expect(setup(store).rebuild()).rejects.toThrow(
+      'The event log contains an unknown event: unknown',
+    );
+  });
+
+  it('should stop logging', async () => {
+    const store = new Store();
+    setup(store).stop();
+    await store.dispatch(addTodo, 'a');
+    expect(log.read()).toEqual([]);
+  });
+
+  it('should persist the log as JSON lines', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'rxs-'));
+    const file = path.join(directory, 'events.jsonl');
+    try {
+      log = getJsonLinesEventLog(fs, file);
+      const store = new Store();
+      setup(store);
+      await store.dispatch(addTodo, 'a');
+      await store.dispatch(addTodo, 'b');
+      expect(fs.readFileSync(file, 'utf8')).toBe(
+        '{"sequence":1,"timestamp":1001,"name":"addTodo","event":"a"}\n' +
+          '{"sequence":2,"timestamp":1002,"name":"addTodo","event":"b"}\n',
+      );
+
+      const rebuiltStore = new Store();
+      await setup(rebuiltStore).rebuild();
+      await expectSequence(rebuiltStore.getBehavior(todos), [['a', 'b']]);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
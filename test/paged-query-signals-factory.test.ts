@@ -0,0 +1,149 @@
+import { Subject, of, throwError } from 'rxjs';
+import { toEffectError } from '../src/effect-result';
+import {
+  CombinedPagedQueryResult,
+  getPagedQuerySignalsFactory,
+  PageEffectInput,
+  PagedQueryInputSignals,
+  PagedQueryOutputSignals,
+  PageRequest,
+  PageResult,
+} from '../src/paged-query-signals-factory';
+import { Store } from '../src/store';
+import { getDerivedId, NO_VALUE } from '../src/store-utils';
+import { waitFor } from '../src/test-utils/test-utils';
+
+describe('PagedQuerySignalsFactory', () => {
+  type Filter = { search: string };
+  type Sort = 'asc' | 'desc';
+
+  const allItems = ['a', 'ab', 'abc', 'b', 'bc'];
+  const query = (input: PageEffectInput<Filter, Sort>): PageResult<string> => {
+    const matching = allItems.filter(item => item.startsWith(input.filter.search));
+    const sorted = input.sort === 'asc' ? matching : [...matching].reverse();
+    return {
+      items: sorted.slice(input.page * input.pageSize, (input.page + 1) * input.pageSize),
+      totalCount: matching.length,
+    };
+  };
+
+  let store: Store;
+  let requestSubject: Subject<PageRequest<Filter, Sort>>;
+  let effectInputs: PageEffectInput<Filter, Sort>[];
+  let failingPage: number | null;
+  let input: PagedQueryInputSignals<Filter, Sort>;
+  let output: PagedQueryOutputSignals<Filter, Sort, string, string>;
+  let results: CombinedPagedQueryResult<Filter, Sort, string, string>[];
+
+  const getLatest = () => results[results.length - 1];
+
+  const settled = (effectCount: number) =>
+    waitFor(
+      store,
+      output.combined,
+      result => effectInputs.length === effectCount && !result.pending,
+    );
+
+  beforeEach(() => {
+    store = new Store();
+    requestSubject = new Subject<PageRequest<Filter, Sort>>();
+    effectInputs = [];
+    failingPage = null;
+    const request = getDerivedId<PageRequest<Filter, Sort>>();
+    store.addDerivedState(request, requestSubject.asObservable());
+    const signals = getPagedQuerySignalsFactory<Filter, Sort, string, string>()
+      .connectId(request, 'request', false)
+      .build({});
+    signals.setup(store);
+    store.addEffect(signals.effects.page, effectInput => {
+      effectInputs.push(effectInput);
+      return effectInput.page === failingPage ? throwError(() => 'failed') : of(query(effectInput));
+    });
+    input = { ...signals.input, request };
+    output = signals.output;
+    results = [];
+    store.getBehavior(output.combined).subscribe(result => results.push(result));
+  });
+
+  it('should have no pages without request', () => {
+    expect(getLatest()).toEqual({
+      request: NO_VALUE,
+      pages: [],
+      items: [],
+      totalCount: NO_VALUE,
+      hasMore: false,
+      pending: false,
+    });
+  });
+
+  it('should load the first page for a request', async () => {
+    requestSubject.next({ filter: { search: 'a' }, sort: 'asc', pageSize: 2 });
+    await settled(1);
+    expect(getLatest()).toEqual({
+      request: { filter: { search: 'a' }, sort: 'asc', pageSize: 2 },
+      pages: [{ page: 0, pending: false, result: { items: ['a', 'ab'], totalCount: 3 } }],
+      items: ['a', 'ab'],
+      totalCount: 3,
+      hasMore: true,
+      pending: false,
+    });
+  });
+
+  it('should accumulate pages', async () => {
+    requestSubject.next({ filter: { search: '' }, sort: 'asc', pageSize: 2 });
+    await settled(1);
+    await store.dispatch(input.loadNext);
+    await settled(2);
+    expect(getLatest().items).toEqual(['a', 'ab', 'abc', 'b']);
+    expect(getLatest().hasMore).toBe(true);
+    await store.dispatch(input.loadNext);
+    await settled(3);
+    expect(getLatest().items).toEqual(allItems);
+    expect(getLatest().hasMore).toBe(false);
+    await store.dispatch(input.loadNext);
+    const result = await settled(3);
+    expect(result.pages.map(p => p.page)).toEqual([0, 1, 2]);
+    expect(effectInputs.map(i => i.page)).toEqual([0, 1, 2]);
+  });
+
+  it('should reset pages on a new request', async () => {
+    requestSubject.next({ filter: { search: '' }, sort: 'asc', pageSize: 2 });
+    await settled(1);
+    await store.dispatch(input.loadNext);
+    await settled(2);
+    requestSubject.next({ filter: { search: 'b' }, sort: 'desc', pageSize: 2 });
+    await settled(3);
+    expect(getLatest().pages.map(p => p.page)).toEqual([0]);
+    expect(getLatest().items).toEqual(['bc', 'b']);
+    expect(getLatest().hasMore).toBe(false);
+  });
+
+  it('should refresh the pages', async () => {
+    requestSubject.next({ filter: { search: '' }, sort: 'asc', pageSize: 2 });
+    await settled(1);
+    await store.dispatch(input.loadNext);
+    await settled(2);
+    await store.dispatch(input.refresh);
+    await settled(3);
+    expect(effectInputs.map(i => i.page)).toEqual([0, 1, 0]);
+    expect(getLatest().items).toEqual(['a', 'ab']);
+  });
+
+  it('should keep the error per page and retry on loadNext', async () => {
+    failingPage = 1;
+    requestSubject.next({ filter: { search: '' }, sort: 'asc', pageSize: 2 });
+    await settled(1);
+    await store.dispatch(input.loadNext);
+    await settled(2);
+    expect(getLatest().pages).toEqual([
+      { page: 0, pending: false, result: { items: ['a', 'ab'], totalCount: 5 } },
+      { page: 1, pending: false, result: toEffectError({ unhandledError: 'failed' }) },
+    ]);
+    expect(getLatest().items).toEqual(['a', 'ab']);
+    failingPage = null;
+    await store.dispatch(input.loadNext);
+    await settled(3);
+    expect(effectInputs.map(i => i.page)).toEqual([0, 1, 1]);
+    expect(getLatest().items).toEqual(['a', 'ab', 'abc', 'b']);
+  });
+});
@@ -0,0 +1,134 @@
+import {
+  DevToolsAction,
+  DevToolsConnection,
+  DevToolsMessage,
+  connectReduxDevTools,
+} from '../src/redux-devtools';
+import { Store } from '../src/store';
+import { getEventId, getStateId } from '../src/store-utils';
+
+describe('Redux DevTools bridge', () => {
+  const counter = getStateId<number>();
+  const add = getEventId<number>();
+
+  type FakeDevTools = {
+    inits: unknown[];
+    sent: [DevToolsAction, unknown][];
+    listener: ((message: DevToolsMessage) => void) | null;
+    unsubscribed: boolean;
+  };
+
+  let store: Store;
+  let devTools: FakeDevTools;
+  let connection: DevToolsConnection;
+
+  const transport = () => ({
+    init: (state: unknown) => {
+      devTools.inits.push(state);
+    },
+    send: (action: DevToolsAction, state: unknown) => {
+      devTools.sent.push([action, state]);
+    },
+    subscribe: (listener: (message: DevToolsMessage) => void) => {
+      devTools.listener = listener;
+      return () => {
+        devTools.unsubscribed = true;
+      };
+    },
+  });
+
+  const jumpToAction = async (actionId: number) => {
+    devTools.listener?.({
+      type: 'DISPATCH',
+      payload: { type: 'JUMP_TO_ACTION', actionId },
+    });
+    await connection.waitForJumps();
+  };
+
+  beforeEach(() => {
+    store = new Store();
+    store.addState(counter, 0);
+    store.addReducer(counter, add, (state, event) => state + event);
+    store.setIdName(counter, 'counter');
+    store.setIdName(add, 'add');
+    devTools = {
+      inits: [],
+      sent: [],
+      listener: null,
+      unsubscribed: false,
+    };
+  });
+
+  it('should send the initial state and all events with resulting state', async () => {
+    connectReduxDevTools(store, transport());
+    await store.dispatch(add, 2);
+    await store.dispatch(add, 3);
+    expect(devTools.inits).toEqual([{ counter: 0 }]);
+    expect(devTools.sent).toEqual([
+      [{ type: 'add', payload: 2 }, { counter: 2 }],
+      [{ type: 'add', payload: 3 }, { counter: 5 }],
+    ]);
+  });
+
+  it('should jump to a given action', async () => {
+    connection = connectReduxDevTools(store, transport());
+    await store.dispatch(add, 2);
+    await store.dispatch(add, 3);
+    await jumpToAction(1);
+    expect(store.getStateSnapshot()).toEqual({ counter: 2 });
+    await jumpToAction(0);
+    expect(store.getStateSnapshot()).toEqual({ counter: 0 });
+    await jumpToAction(2);
+    expect(store.getStateSnapshot()).toEqual({ counter: 5 });
+    expect(devTools.sent.length).toBe(2);
+  });
+
+  it('should re-init the devtools, if a new event is dispatched after a jump', async () => {
+    connection = connectReduxDevTools(store, transport());
+    await store.dispatch(add, 2);
+    await store.dispatch(add, 3);
+    await jumpToAction(1);
+    await store.dispatch(add, 4);
+    expect(devTools.inits).toEqual([{ counter: 0 }, { counter: 2 }]);
+    expect(devTools.sent[2]).toEqual([{ type: 'add', payload: 4 }, { counter: 6 }]);
+    await jumpToAction(0);
+    expect(store.getStateSnapshot()).toEqual({ counter: 2 });
+  });
+
+  it('should handle reset and commit', async () => {
+    connection = connectReduxDevTools(store, transport());
+    await store.dispatch(add, 2);
+    devTools.listener?.({ type: 'DISPATCH', payload: { type: 'COMMIT' } });
+    await store.dispatch(add, 3);
+    expect(devTools.inits).toEqual([{ counter: 0 }, { counter: 2 }]);
+    await jumpToAction(0);
+    expect(store.getStateSnapshot()).toEqual({ counter: 2 });
+
+    devTools.listener?.({ type: 'DISPATCH', payload: { type: 'RESET' } });
+    await connection.waitForJumps();
+    expect(store.getStateSnapshot()).toEqual({ counter: 0 });
+    expect(devTools.inits).toEqual([{ counter: 0 }, { counter: 2 }, { counter: 0 }]);
+  });
+
+  it('should re-init the devtools, if a jump fails', async () => {
+    connection = connectReduxDevTools(store, transport());
+    await store.dispatch(add, 2);
+    jest.spyOn(store, 'resetBehaviors').mockImplementationOnce(() => {
+      throw new Error('reset failed');
+    });
+    await jumpToAction(0);
+    expect(devTools.inits).toEqual([{ counter: 0 }, { counter: 2 }]);
+    await store.dispatch(add, 3);
+    expect(devTools.inits.length).toBe(2);
+    expect(devTools.sent[1]).toEqual([{ type: 'add', payload: 3 }, { counter: 5 }]);
+  });
+
+  it('should stop sending after disconnect', async () => {
+    connection = connectReduxDevTools(store, transport());
+    await store.dispatch(add, 2);
+    connection.disconnect();
+    await store.dispatch(add, 3);
+    expect(devTools.sent.length).toBe(1);
+    expect(devTools.unsubscribed).toBe(true);
+  });
+});
@@ -0,0 +1,223 @@
+import { filter, map, of } from 'rxjs';
+import { getEffectSignalsFactory } from '../src/effect-signals-factory';
+import {
+  getStateMachineSignalsFactory,
+  StateMachineEffectInput,
+  StateMachineInputSignals,
+  StateMachineOutputSignals,
+  StateMachineState,
+} from '../src/state-machine-signals-factory';
+import { Store } from '../src/store';
+import { getEffectId, getEventId } from '../src/store-utils';
+import { expectSequence, getSequence } from '../src/test-utils/test-utils';
+
+describe('StateMachineSignalsFactory', () => {
+  const play = getEventId<undefined>();
+  const pause = getEventId<undefined>();
+  const stop = getEventId<undefined>();
+  const setVolume = getEventId<number>();
+  const playEntry = getEffectId<StateMachineEffectInput, void>();
+  const playExit = getEffectId<StateMachineEffectInput, void>();
+
+  const factory = getStateMachineSignalsFactory();
+
+  let store: Store;
+  let input: StateMachineInputSignals;
+  let output: StateMachineOutputSignals;
+  let effectCalls: string[];
+
+  beforeEach(() => {
+    store = new Store();
+    effectCalls = [];
+    store.addEffect(playEntry, ({ state }) => {
+      effectCalls.push(`entry ${state}`);
+      return of(undefined);
+    });
+    store.addEffect(playExit, ({ state }) => {
+      effectCalls.push(`exit ${state}`);
+      return of(undefined);
+    });
+    const signals = factory.build({
+      initial: 'stopped',
+      states: {
+        stopped: {
+          on: [{ event: play, target: 'active' }],
+        },
+        active: {
+          type: 'parallel',
+          on: [{ event: stop, target: 'stopped' }],
+          states: {
+            player: {
+              initial: 'playing',
+              states: {
+                playing: {
+                  entry: playEntry,
+                  exit: playExit,
+                  on: [{ event: pause, target: 'active.player.paused' }],
+                },
+                paused: {
+                  on: [{ event: play, target: 'active.player.playing' }],
+                },
+              },
+            },
+            volume: {
+              states: {
+                normal: {
+                  on: [
+                    {
+                      event: setVolume,
+                      target: 'active.volume.loud',
+                      guard: (volume: number) => volume > 10,
+                    },
+                  ],
+                },
+                loud: {
+                  on: [
+                    {
+                      event: setVolume,
+                      target: 'active.volume.normal',
+                      guard: (volume: number) => volume <= 10,
+                    },
+                  ],
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+    signals.setup(store);
+    input = signals.input;
+    output = signals.output;
+  });
+
+  it('should start in the initial state', async () => {
+    await expectSequence(store.getBehavior(output.state), [
+      { value: 'stopped', activeStates: ['stopped'] },
+    ]);
+  });
+
+  it('should enter nested and parallel initial states', async () => {
+    const sequence = expectSequence(store.getBehavior(output.state), [
+      { value: 'stopped', activeStates: ['stopped'] },
+      {
+        value: { active: { player: 'playing', volume: 'normal' } },
+        activeStates: [
+          'active',
+          'active.player',
+          'active.player.playing',
+          'active.volume',
+          'active.volume.normal',
+        ],
+      },
+    ]);
+    await store.dispatch(play);
+    await sequence;
+  });
+
+  it('should handle transitions of parallel states independently', async () => {
+    const values: StateMachineState['value'][] = [];
+    store.getBehavior(output.state).subscribe(state => values.push(state.value));
+    await store.dispatch(play);
+    await store.dispatch(pause);
+    await store.dispatch(setVolume, 5);
+    await store.dispatch(setVolume, 11);
+    await store.dispatch(play);
+    await store.dispatch(stop);
+    expect(values).toEqual([
+      'stopped',
+      { active: { player: 'playing', volume: 'normal' } },
+      { active: { player: 'paused', volume: 'normal' } },
+      { active: { player: 'paused', volume: 'loud' } },
+      { active: { player: 'playing', volume: 'loud' } },
+      'stopped',
+    ]);
+  });
+
+  it('should invoke entry and exit effects', async () => {
+    store.getBehavior(output.state).subscribe();
+    await store.dispatch(play);
+    await store.dispatch(pause);
+    await store.dispatch(play);
+    await store.dispatch(stop);
+    expect(effectCalls).toEqual([
+      'entry active.player.playing',
+      'exit active.player.playing',
+      'entry active.player.playing',
+      'exit active.player.playing',
+    ]);
+  });
+
+  it('should give the allowed transitions', async () => {
+    const sequence = expectSequence(store.getBehavior(output.allowedTransitions), [
+      [{ event: play, source: 'stopped', target: 'active' }],
+      [
+        { event: stop, source: 'active', target: 'stopped' },
+        { event: pause, source: 'active.player.playing', target: 'active.player.paused' },
+        { event: setVolume, source: 'active.volume.normal', target: 'active.volume.loud' },
+      ],
+    ]);
+    await store.dispatch(play);
+    await sequence;
+  });
+
+  it('should dispatch transition events', async () => {
+    const sequence = getSequence(store.getEventStream(output.transitioned), 2);
+    await store.dispatch(play);
+    await store.dispatch(setVolume, 5);
+    await store.dispatch(stop);
+    const transitions = await sequence;
+    expect(transitions.map(t => t.transitions)).toEqual([
+      [{ event: play, source: 'stopped', target: 'active' }],
+      [{ event: stop, source: 'active', target: 'stopped' }],
+    ]);
+    expect(transitions[1].from.activeStates).toContain('active.player.playing');
+    expect(transitions[1].to.value).toBe('stopped');
+  });
+
+  it('should reset to the initial state', async () => {
+    const sequence = expectSequence(store.getBehavior(output.state), [
+      { value: 'stopped', activeStates: ['stopped'] },
+      expect.objectContaining({ value: { active: { player: 'playing', volume: 'normal' } } }),
+      { value: 'stopped', activeStates: ['stopped'] },
+    ]);
+    await store.dispatch(play);
+    await store.dispatch(input.reset);
+    await sequence;
+    expect(effectCalls).toEqual(['entry active.player.playing', 'exit active.player.playing']);
+  });
+
+  it('should throw for unknown target states', () => {
+    expect(() =>
+      factory.build({
+        states: {
+          a: { on: [{ event: play, target: 'b' }] },
+        },
+      }),
+    ).toThrow('The state machine has no state: b');
+  });
+
+  it('should drive an effect factory', async () => {
+    const signals = factory
+      .compose(getEffectSignalsFactory<StateMachineState, string, never>())
+      .connect('state', 'input', false)
+      .build({
+        c1: {
+          states: {
+            off: { on: [{ event: play, target: 'on' }] },
+            on: {},
+          },
+        },
+        c2: {},
+      });
+    signals.setup(store);
+    store.addEffect(signals.effects.id, state => of(JSON.stringify(state.value)));
+    const results = store.getBehavior(signals.output.combined).pipe(
+      filter(combined => !combined.resultPending),
+      map(combined => combined.result),
+    );
+    await expectSequence(results, ['"off"']);
+    await store.dispatch(play);
+    await expectSequence(results, ['"on"']);
+  });
+});
@@ -0,0 +1,171 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TestScheduler } from 'rxjs/testing';
+import {
+  StorageAdapter,
+  getFileSystemStorageAdapter,
+  getInMemoryStorageAdapter,
+  getWebStorageAdapter,
+} from '../src/state-persistence';
+import { Store } from '../src/store';
+import { getEventId, getStateId } from '../src/store-utils';
+import { expectSequence } from '../src/test-utils/test-utils';
+
+describe('State persistence', () => {
+  const counter = getStateId<number>();
+  const increment = getEventId<undefined>();
+
+  let store: Store;
+  let adapter: StorageAdapter;
+
+  beforeEach(() => {
+    store = new Store();
+    adapter = getInMemoryStorageAdapter();
+  });
+
+  it('should use the initial value, if nothing is stored', async () => {
+    store.addState(counter, 5, { persistence: { adapter, key: 'counter' } });
+    await expectSequence(store.getBehavior(counter), [5]);
+    expect(adapter.getItem('counter')).toBe(null);
+  });
+
+  it('should hydrate the initial value', async () => {
+    adapter.setItem('counter', '42');
+    store.addState(counter, 5, { persistence: { adapter, key: 'counter' } });
+    await expectSequence(store.getBehavior(counter), [42]);
+  });
+
+  it('should write through changes', async () => {
+    store.addState(counter, 0, { persistence: { adapter, key: 'counter' } });
+    store.addReducer(counter, increment, state => state + 1);
+    await store.dispatch(increment);
+    expect(adapter.getItem('counter')).toBe('1');
+    await store.dispatch(increment);
+    expect(adapter.getItem('counter')).toBe('2');
+  });
+
+  it('should reset to the initial value and not to the hydrated one', async () => {
+    adapter.setItem('counter', '42');
+    store.addState(counter, 0, { persistence: { adapter, key: 'counter' } });
+    await expectSequence(store.getBehavior(counter), [42]);
+    store.resetBehaviors();
+    await expectSequence(store.getBehavior(counter), [0]);
+    expect(adapter.getItem('counter')).toBe('0');
+  });
+
+  it('should use custom serialization', async () => {
+    adapter.setItem('counter', 'n:3');
+    store.addState(counter, 0, {
+      persistence: {
+        adapter,
+        key: 'counter',
+        serialize: value => `n:${value}`,
+        deserialize: value => Number(value.substring(2)),
+      },
+    });
+    store.addReducer(counter, increment, state => state + 1);
+    await store.dispatch(increment);
+    expect(adapter.getItem('counter')).toBe('n:4');
+  });
+
+  it('should throttle writes, but always write the latest value', () => {
+    // in run mode, the asyncScheduler used for throttling is driven by the virtual time of the TestScheduler:
+    new TestScheduler((actual, expected) => expect(actual).toEqual(expected)).run(({ flush }) => {
+      const writes: string[] = [];
+      store = new Store({ eventQueueScheduler: 'manual' });
+      store.addState(counter, 0, {
+        persistence: {
+          adapter: {
+            ...adapter,
+            setItem: (key, value) => {
+              writes.push(value);
+              adapter.setItem(key, value);
+            },
+          },
+          key: 'counter',
+          throttleTime: 200,
+        },
+      });
+      store.addReducer(counter, increment, state => state + 1);
+      store.dispatch(increment);
+      store.dispatch(increment);
+      store.dispatch(increment);
+      store.flushEventQueue();
+      expect(writes).toEqual(['1']);
+      flush();
+      expect(writes).toEqual(['1', '3']);
+    });
+  });
+
+  it('should write only once per change after re-adding the state', async () => {
+    const writes: string[] = [];
+    const persistence = {
+      adapter: {
+        ...adapter,
+        setItem: (key: string, value: string) => {
+          writes.push(value);
+          adapter.setItem(key, value);
+        },
+      },
+      key: 'counter',
+    };
+    store.addState(counter, 0, { persistence });
+    store.getBehavior(counter).subscribe();
+    store.removeBehaviorSources(counter);
+    store.addState(counter, 0, { persistence });
+    store.addReducer(counter, increment, state => state + 1);
+    await store.dispatch(increment);
+    expect(writes).toEqual(['1']);
+  });
+
+  it('should stop writing when the lifecycle ends', async () => {
+    const writes: string[] = [];
+    const handle = store.getLifecycleHandle(s => {
+      s.addState(counter, 0, {
+        persistence: {
+          adapter: {
+            ...adapter,
+            setItem: (key, value) => {
+              writes.push(value);
+              adapter.setItem(key, value);
+            },
+          },
+          key: 'counter',
+        },
+      });
+    });
+    handle.end();
+    store.addState(counter, 5);
+    store.getBehavior(counter).subscribe();
+    expect(writes).toEqual([]);
+  });
+
+  it('should prefix keys for web storage', () => {
+    const webStorage = getWebStorageAdapter(adapter, 'app.');
+    webStorage.setItem('counter', '1');
+    expect(adapter.getItem('app.counter')).toBe('1');
+    expect(webStorage.getItem('counter')).toBe('1');
+    webStorage.removeItem('counter');
+    expect(adapter.getItem('app.counter')).toBe(null);
+  });
+
+  it('should persist to the file system', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'rxs-'));
+    try {
+      const fileAdapter = getFileSystemStorageAdapter(fs, directory);
+      store.addState(counter, 0, { persistence: { adapter: fileAdapter, key: 'counter' } });
+      store.addReducer(counter, increment, state => state + 1);
+      await store.dispatch(increment);
+      expect(fs.readFileSync(path.join(directory, 'counter.json'), 'utf8')).toBe('1');
+
+      const store2 = new Store();
+      store2.addState(counter, 0, { persistence: { adapter: fileAdapter, key: 'counter' } });
+      await expectSequence(store2.getBehavior(counter), [1]);
+      fileAdapter.removeItem('counter');
+      expect(fileAdapter.getItem('counter')).toBe(null);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
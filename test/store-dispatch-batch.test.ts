@@ -0,0 +1,100 @@
+import { combineLatest, map, of } from 'rxjs';
+import { Store } from '../src/store';
+import { getDerivedId, getEventId, getStateId } from '../src/store-utils';
+
+describe('Store dispatchBatch', () => {
+  const a = getStateId<number>();
+  const b = getStateId<number>();
+  const sum = getDerivedId<number>();
+  const doubledA = getDerivedId<number>();
+  const summary = getDerivedId<string>();
+  const addA = getEventId<number>();
+  const addB = getEventId<number>();
+
+  let store: Store;
+  let sums: number[];
+  let summaries: string[];
+
+  beforeEach(() => {
+    store = new Store();
+    store.addState(a, 0);
+    store.addReducer(a, addA, (state, event) => state + event);
+    store.addState(b, 0);
+    store.addReducer(b, addB, (state, event) => state + event);
+    store.addDerivedState(
+      sum,
+      combineLatest([store.getBehavior(a), store.getBehavior(b)]).pipe(map(([va, vb]) => va + vb)),
+    );
+    store.addDerivedState(doubledA, store.getBehavior(a).pipe(map(va => va * 2)));
+    store.addDerivedState(
+      summary,
+      combineLatest([store.getBehavior(a), store.getBehavior(doubledA)]).pipe(
+        map(([va, vd]) => `${va}/${vd}`),
+      ),
+    );
+    sums = [];
+    summaries = [];
+    store.getBehavior(sum).subscribe(value => sums.push(value));
+    store.getBehavior(summary).subscribe(value => summaries.push(value));
+  });
+
+  it('should emit intermediate derived values without batch', async () => {
+    await store.dispatch(addA, 1);
+    await store.dispatch(addB, 2);
+    expect(sums).toEqual([0, 1, 3]);
+  });
+
+  it('should emit derived values only once after the batch', async () => {
+    await store.dispatchBatch([
+      { type: addA, event: 1 },
+      { type: addB, event: 2 },
+      { type: addA, event: 3 },
+    ]);
+    expect(sums).toEqual([0, 6]);
+  });
+
+  it('should flush derived values in dependency order', async () => {
+    await store.dispatchBatch([
+      { type: addA, event: 1 },
+      { type: addA, event: 1 },
+    ]);
+    expect(summaries).toEqual(['0/0', '2/4']);
+  });
+
+  it('should not emit, if the batch result equals the previous value', async () => {
+    await store.dispatchBatch([
+      { type: addA, event: 1 },
+      { type: addB, event: -1 },
+    ]);
+    expect(sums).toEqual([0]);
+    await store.dispatch(addB, 1);
+    expect(sums).toEqual([0, 1]);
+  });
+
+  it('should ignore events without subscribers', async () => {
+    const unused = getEventId<number>();
+    await store.dispatchBatch([
+      { type: unused, event: 1 },
+      { type: addB, event: 1 },
+    ]);
+    expect(sums).toEqual([0, 1]);
+  });
+
+  it('should reject without applying any event, if an event middleware throws', async () => {
+    store.addEventMiddleware(typedEvent => {
+      if (typedEvent.type === addB) {
+        throw new Error('middleware failed');
+      }
+      return of(typedEvent.event);
+    });
+    await expect(
+      store.dispatchBatch([
+        { type: addA, event: 1 },
+        { type: addB, event: 1 },
+      ]),
+    ).rejects.toThrow('middleware failed');
+    expect(sums).toEqual([0]);
+    await store.dispatch(addA, 2);
+    expect(sums).toEqual([0, 2]);
+  });
+});
@@ -0,0 +1,86 @@
+import { map } from 'rxjs';
+import { getInMemoryStorageAdapter } from '../src/state-persistence';
+import { Store } from '../src/store';
+import { getDerivedId, getEventId, getStateId } from '../src/store-utils';
+import { expectSequence, withSubscription } from '../src/test-utils/test-utils';
+
+describe('Store serialization', () => {
+  const counter = getStateId<number>();
+  const label = getStateId<string>();
+  const doubled = getDerivedId<number>();
+  const increment = getEventId<undefined>();
+
+  const setup = (store: Store) => {
+    store.addState(counter, 0, { stableKey: 'counter' });
+    store.addReducer(counter, increment, state => state + 1);
+    store.addState(label, 'none');
+    store.addDerivedState(doubled, store.getBehavior(counter).pipe(map(c => c * 2)), undefined, {
+      stableKey: 'doubled',
+    });
+  };
+
+  let store: Store;
+
+  beforeEach(() => {
+    store = new Store();
+  });
+
+  it('should serialize only subscribed behaviors with stable key', async () => {
+    setup(store);
+    await store.dispatch(increment);
+    expect(store.serialize()).toBe('{"counter":1}');
+    await withSubscription(store.getBehavior(doubled), async () => {
+      expect(JSON.parse(store.serialize())).toEqual({ counter: 1, doubled: 2 });
+    });
+  });
+
+  it('should hydrate a new store from the serialized document', async () => {
+    setup(store);
+    await store.dispatch(increment);
+    await store.dispatch(increment);
+    const document = store.serialize();
+
+    const clientStore = new Store();
+    clientStore.hydrate(document);
+    setup(clientStore);
+    await expectSequence(clientStore.getBehavior(counter), [2]);
+    await clientStore.dispatch(increment);
+    await expectSequence(clientStore.getBehavior(counter), [3]);
+  });
+
+  it('should reset to the initial value and not to the hydrated one', async () => {
+    store.hydrate('{"counter":5}');
+    setup(store);
+    await expectSequence(store.getBehavior(counter), [5]);
+    store.resetBehaviors();
+    await expectSequence(store.getBehavior(counter), [0]);
+  });
+
+  it('should prefer the hydrated value over the persisted one', async () => {
+    const adapter = getInMemoryStorageAdapter();
+    adapter.setItem('counter', '7');
+    store.hydrate('{"counter":3}');
+    store.addState(counter, 0, { stableKey: 'counter', persistence: { adapter, key: 'counter' } });
+    await expectSequence(store.getBehavior(counter), [3]);
+  });
+
+  it('should serialize null values', () => {
+    const nullable = getStateId<string | null>();
+    store.addState(nullable, null, { stableKey: 'nullable' });
+    expect(store.serialize()).toBe('{"nullable":null}');
+  });
+
+  it('should throw, if a stable key is used twice', () => {
+    store.addState(counter, 0, { stableKey: 'key' });
+    expect(() => store.addState(label, '', { stableKey: 'key' })).toThrowError(
+      'The stable key is already used for another behavior: key',
+    );
+  });
+
+  it('should release the stable key on completion', () => {
+    store.addState(counter, 0, { stableKey: 'key' });
+    store.completeBehavior(counter);
+    store.addState(label, '', { stableKey: 'key' });
+    expect(store.serialize()).toBe('{"key":""}');
+  });
+});